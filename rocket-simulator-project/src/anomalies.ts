@@ -0,0 +1,134 @@
+import { InvalidStateException } from './exceptions';
+import { AnomalyType, IAnomaly, IRocketState, ISensorReadings, IStageStrategy } from './types';
+
+// ============================================================================
+// ANOMALIES (Failure Injection)
+// ============================================================================
+
+const FUEL_LEAK_RATE = 0.5;      // % of the stage's propellant lost per second
+const GUIDANCE_DRIFT_RATE = 0.5; // degrees of pitch error gained per second
+export const SENSOR_DROPOUT_DURATION = 30; // s
+
+export const ANOMALY_DESCRIPTIONS: { [type: string]: string } = {
+  [AnomalyType.ENGINE_OUT]: 'one engine of the burning stage shuts down',
+  [AnomalyType.FUEL_LEAK]: `the burning stage leaks ${FUEL_LEAK_RATE}% of its propellant per second`,
+  [AnomalyType.SEPARATION_FAILURE]: 'the burning stage will not separate at burnout',
+  [AnomalyType.GUIDANCE_DRIFT]: `automatic guidance drifts off by ${GUIDANCE_DRIFT_RATE}° per second`,
+  [AnomalyType.SENSOR_DROPOUT]: `navigation telemetry freezes for ${SENSOR_DROPOUT_DURATION} s`
+};
+
+// Hardware failures go away with the stage they happened on.
+const STAGE_BOUND = [AnomalyType.ENGINE_OUT, AnomalyType.FUEL_LEAK, AnomalyType.SEPARATION_FAILURE];
+
+// Everything injected so far. Whether an anomaly is in effect follows from
+// the state alone, so undo, rewind and load only have to forget what came
+// after the state they restore.
+export class AnomalySet {
+  private anomalies: IAnomaly[] = [];
+
+  getAll(): IAnomaly[] {
+    return this.anomalies.map(anomaly => ({ ...anomaly }));
+  }
+
+  restore(anomalies: IAnomaly[]): void {
+    this.anomalies = anomalies.map(anomaly => ({ ...anomaly }));
+  }
+
+  // Throws when the anomaly would have no effect on this stage.
+  add(anomaly: IAnomaly, stage: IStageStrategy, state: IRocketState, hasNextStage: boolean): void {
+    const active = this.getActive(state);
+    const sameStage = active.filter(other => other.type === anomaly.type && other.stage === anomaly.stage);
+
+    switch (anomaly.type) {
+      case AnomalyType.ENGINE_OUT:
+        if (sameStage.length >= stage.getEngineCount()) {
+          throw new InvalidStateException(`All engines of stage ${stage.getStageName()} are already out`);
+        }
+        break;
+      case AnomalyType.SEPARATION_FAILURE:
+        if (!hasNextStage) {
+          throw new InvalidStateException(`Stage ${stage.getStageName()} is the final stage: nothing to separate`);
+        }
+        if (sameStage.length > 0) {
+          throw new InvalidStateException(`Stage ${stage.getStageName()} is already stuck`);
+        }
+        break;
+      case AnomalyType.GUIDANCE_DRIFT:
+      case AnomalyType.SENSOR_DROPOUT:
+        if (active.some(other => other.type === anomaly.type)) {
+          throw new InvalidStateException(`${anomaly.type} is already in effect`);
+        }
+        break;
+      case AnomalyType.FUEL_LEAK:
+        break; // leaks add up
+    }
+    this.anomalies.push({ ...anomaly });
+  }
+
+  remove(anomaly: IAnomaly): void {
+    this.anomalies = this.anomalies.filter(other =>
+      other.type !== anomaly.type || other.injectedAt !== anomaly.injectedAt || other.stage !== anomaly.stage
+    );
+  }
+
+  // Forgets anomalies injected after `time`.
+  rewindTo(time: number): void {
+    this.anomalies = this.anomalies.filter(anomaly => anomaly.injectedAt <= time);
+  }
+
+  getActive(state: IRocketState): IAnomaly[] {
+    return this.anomalies.filter(anomaly => AnomalySet.isActive(anomaly, state));
+  }
+
+  static isActive(anomaly: IAnomaly, state: IRocketState): boolean {
+    if (anomaly.injectedAt > state.missionTime) {
+      return false;
+    }
+    if (STAGE_BOUND.includes(anomaly.type)) {
+      return anomaly.stage === Math.max(state.stage, 1);
+    }
+    if (anomaly.type === AnomalyType.SENSOR_DROPOUT) {
+      return state.missionTime < anomaly.injectedAt + SENSOR_DROPOUT_DURATION;
+    }
+    return true;
+  }
+
+  // Share of the stage's thrust (and propellant flow) still available.
+  getEngineFactor(stage: IStageStrategy, state: IRocketState): number {
+    const engines = stage.getEngineCount();
+    const out = this.count(AnomalyType.ENGINE_OUT, state);
+    return Math.max(engines - out, 0) / engines;
+  }
+
+  // % of the stage's propellant per second.
+  getLeakRate(state: IRocketState): number {
+    return this.count(AnomalyType.FUEL_LEAK, state) * FUEL_LEAK_RATE;
+  }
+
+  blocksSeparation(state: IRocketState): boolean {
+    return this.count(AnomalyType.SEPARATION_FAILURE, state) > 0;
+  }
+
+  // Degrees added to the automatic guidance's pitch.
+  getPitchError(state: IRocketState): number {
+    const drift = this.getActive(state).find(anomaly => anomaly.type === AnomalyType.GUIDANCE_DRIFT);
+    return drift ? GUIDANCE_DRIFT_RATE * Math.max(state.missionTime - drift.injectedAt, 0) : 0;
+  }
+
+  getFrozenReadings(state: IRocketState): ISensorReadings | null {
+    const dropout = this.getActive(state).find(anomaly => anomaly.type === AnomalyType.SENSOR_DROPOUT);
+    return dropout?.readings ?? null;
+  }
+
+  // Anomalies in effect at `from` but no longer at `to`.
+  getCleared(from: IRocketState, to: IRocketState): IAnomaly[] {
+    return this.anomalies.filter(anomaly =>
+      anomaly.injectedAt <= from.missionTime &&
+      AnomalySet.isActive(anomaly, from) && !AnomalySet.isActive(anomaly, to)
+    );
+  }
+
+  private count(type: AnomalyType, state: IRocketState): number {
+    return this.getActive(state).filter(anomaly => anomaly.type === type).length;
+  }
+}
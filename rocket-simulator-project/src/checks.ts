@@ -0,0 +1,94 @@
+import { CheckOutcome, ICheckAttempt, ICheckConfig, ILogger, IRandomSource, IRetryPolicy, ISystemCheck } from "./types";
+
+// ============================================================================
+// PRE-LAUNCH CHECKS
+// ============================================================================
+
+export class ConfiguredSystemCheck implements ISystemCheck {
+  constructor(private config: ICheckConfig) {}
+
+  getName(): string {
+    return this.config.name;
+  }
+
+  getDuration(): number {
+    return this.config.duration;
+  }
+
+  run(random: IRandomSource): CheckOutcome {
+    const roll = random.next();
+    if (roll < this.config.hardwareFailureRate) {
+      return CheckOutcome.HARDWARE_FAULT;
+    }
+    if (roll < this.config.hardwareFailureRate + this.config.transientFailureRate) {
+      return CheckOutcome.TRANSIENT_FAULT;
+    }
+    return CheckOutcome.PASSED;
+  }
+}
+
+export interface ICheckReport {
+  outcome: CheckOutcome;
+  attempts: ICheckAttempt[];
+  elapsed: number; // s, including backoff waits
+}
+
+// Runs a check until it passes, hits a hardware fault or runs out of attempts.
+// The attempts are rolled at once and reported one by one as they finish.
+export class CheckRunner {
+  constructor(
+    private policy: IRetryPolicy,
+    private random: IRandomSource,
+    private logger: ILogger
+  ) {}
+
+  // `startAt` is when the check begins, in s after the checks started.
+  run(check: ISystemCheck, startAt = 0): ICheckReport {
+    const attempts: ICheckAttempt[] = [];
+    let backoff = this.policy.initialBackoff;
+    let elapsed = 0;
+
+    for (let attempt = 1; attempt <= this.policy.maxAttempts; attempt++) {
+      elapsed += check.getDuration();
+      const outcome = check.run(this.random);
+      const retry = outcome === CheckOutcome.TRANSIENT_FAULT && attempt < this.policy.maxAttempts;
+      attempts.push({
+        check: check.getName(),
+        attempt,
+        outcome,
+        endsAt: startAt + elapsed,
+        retryIn: retry ? backoff : null
+      });
+      if (!retry) {
+        return { outcome, attempts, elapsed };
+      }
+      elapsed += backoff;
+      backoff *= this.policy.backoffMultiplier;
+    }
+
+    // Only reached with no attempts allowed at all
+    return { outcome: CheckOutcome.TRANSIENT_FAULT, attempts, elapsed };
+  }
+
+  report(attempt: ICheckAttempt): void {
+    const { check: name, outcome } = attempt;
+    const { maxAttempts } = this.policy;
+    this.logger.debug(`${name}: attempt ${attempt.attempt}/${maxAttempts} -> ${outcome}`);
+
+    if (outcome === CheckOutcome.PASSED) {
+      if (attempt.attempt > 1) {
+        this.logger.info(`${name}: Retry successful.`);
+      }
+      this.logger.info(`${name}: OK`);
+    } else if (outcome === CheckOutcome.HARDWARE_FAULT) {
+      this.logger.error(`${name}: Hardware fault detected.`);
+    } else if (attempt.retryIn !== null) {
+      this.logger.warn(
+        `${name}: Transient error detected (attempt ${attempt.attempt}/${maxAttempts}). ` +
+        `Retrying in ${attempt.retryIn.toFixed(1)} s...`
+      );
+    } else {
+      this.logger.error(`${name}: Transient error persisted after ${attempt.attempt} attempts.`);
+    }
+  }
+}
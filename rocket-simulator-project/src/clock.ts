@@ -0,0 +1,87 @@
+import { SimulatorException } from "./exceptions";
+
+// ============================================================================
+// REAL-TIME CLOCK (Wall-clock Scheduler)
+// ============================================================================
+
+// Called with the simulated seconds that passed since the previous tick.
+// Returning false stops the clock.
+export type ClockTickHandler = (simulatedSeconds: number) => boolean;
+
+export class RealTimeClock {
+  private timer: NodeJS.Timeout | null = null;
+  private paused = false;
+  private lastTick = 0;
+
+  constructor(
+    private onTick: ClockTickHandler,
+    private speed: number = 1,
+    private readonly tickInterval: number = 100 // ms of wall-clock time
+  ) {
+    this.setSpeed(speed);
+  }
+
+  start(): void {
+    if (this.timer) {
+      throw new SimulatorException('Real-time clock is already running');
+    }
+    this.paused = false;
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), this.tickInterval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.paused = false;
+  }
+
+  pause(): void {
+    if (!this.timer || this.paused) {
+      throw new SimulatorException('Real-time clock is not running');
+    }
+    this.paused = true;
+  }
+
+  resume(): void {
+    if (!this.paused) {
+      throw new SimulatorException('Real-time clock is not paused');
+    }
+    this.paused = false;
+    this.lastTick = Date.now(); // do not catch up on the time spent paused
+  }
+
+  setSpeed(speed: number): void {
+    if (!Number.isFinite(speed) || speed <= 0) {
+      throw new SimulatorException('Clock speed must be a positive multiplier');
+    }
+    this.speed = speed;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastTick) / 1000;
+    this.lastTick = now;
+
+    if (this.paused || elapsed <= 0) {
+      return;
+    }
+    if (!this.onTick(elapsed * this.speed)) {
+      this.stop();
+    }
+  }
+}
@@ -2,26 +2,55 @@
 // COMMANDS (Command Pattern)
 // ============================================================================
 
+import { RocketConfigLoader } from "./config";
 import { InvalidStateException, SimulatorException } from "./exceptions";
+import { GuidanceProgramLoader } from "./guidance";
+import { SaveFileManager } from "./persistence";
+import { SeededRandom } from "./random";
 import { RocketSystem } from "./rocketSystem";
-import { ICommand, ILogger, MissionStatus } from "./types";
+import { FlightRuleMonitor } from "./rules";
+import { CommandScheduler } from "./scheduler";
+import { TelemetryRecorder } from "./telemetry";
+import { AnomalyType, GuidanceMode, GuidanceSetting, IAnomaly, ICommand, ICommandRecord, ILogger, IRandomSource, IRocketSnapshot, IRocketState, MissionStatus } from "./types";
 
 abstract class BaseCommand implements ICommand {
+  private snapshot: IRocketSnapshot | null = null;
+
   constructor(protected rocketSystem: RocketSystem, protected logger: ILogger) {}
-  
-  abstract execute(): void;
+
+  // Every command remembers the rocket as it was before it ran, so undo is
+  // just a snapshot restore.
+  execute(): void {
+    this.snapshot = this.rocketSystem.createSnapshot();
+    this.perform();
+  }
+
+  undo(): void {
+    if (!this.snapshot) {
+      throw new InvalidStateException(`Cannot undo: ${this.getDescription()}`);
+    }
+    this.rocketSystem.restoreSnapshot(this.snapshot);
+    this.snapshot = null;
+  }
+
+  canUndo(): boolean {
+    return this.snapshot !== null;
+  }
+
+  protected abstract perform(): void;
   abstract canExecute(): boolean;
   abstract getDescription(): string;
 }
 
 class StartChecksCommand extends BaseCommand {
-  execute(): void {
+  protected perform(): void {
     this.rocketSystem.performPreLaunchChecks();
   }
 
   canExecute(): boolean {
     const state = this.rocketSystem.getState();
-    return state.status === MissionStatus.PRE_LAUNCH;
+    return state.status === MissionStatus.PRE_LAUNCH ||
+           state.status === MissionStatus.HOLD;
   }
 
   getDescription(): string {
@@ -30,7 +59,7 @@ class StartChecksCommand extends BaseCommand {
 }
 
 class LaunchCommand extends BaseCommand {
-  execute(): void {
+  protected perform(): void {
     this.rocketSystem.launch();
   }
 
@@ -40,7 +69,62 @@ class LaunchCommand extends BaseCommand {
   }
 
   getDescription(): string {
-    return 'Launch the rocket';
+    return 'Start the launch countdown';
+  }
+}
+
+class HoldCountdownCommand extends BaseCommand {
+  protected perform(): void {
+    this.rocketSystem.holdCountdown();
+  }
+
+  canExecute(): boolean {
+    const state = this.rocketSystem.getState();
+    return state.status === MissionStatus.COUNTDOWN;
+  }
+
+  getDescription(): string {
+    return 'Hold the countdown';
+  }
+}
+
+class ResumeCountdownCommand extends BaseCommand {
+  protected perform(): void {
+    this.rocketSystem.resumeCountdown();
+  }
+
+  canExecute(): boolean {
+    const state = this.rocketSystem.getState();
+    return state.status === MissionStatus.COUNTDOWN_HOLD;
+  }
+
+  getDescription(): string {
+    return 'Resume the countdown';
+  }
+}
+
+class RecycleCountdownCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private secondsBeforeLiftoff: number
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected perform(): void {
+    this.rocketSystem.recycleCountdown(this.secondsBeforeLiftoff);
+  }
+
+  canExecute(): boolean {
+    const state = this.rocketSystem.getState();
+    const counting = state.status === MissionStatus.COUNTDOWN ||
+                     state.status === MissionStatus.COUNTDOWN_HOLD;
+    return counting && this.secondsBeforeLiftoff > 0;
+  }
+
+  getDescription(): string {
+    return `Recycle the countdown to T-${this.secondsBeforeLiftoff}s`;
   }
 }
 
@@ -53,14 +137,17 @@ class FastForwardCommand extends BaseCommand {
     super(rocketSystem, logger);
   }
 
-  execute(): void {
+  protected perform(): void {
     this.logger.info(`Fast forwarding ${this.seconds} seconds...`);
     this.rocketSystem.advanceTime(this.seconds);
   }
 
   canExecute(): boolean {
     const state = this.rocketSystem.getState();
-    return state.status === MissionStatus.IN_FLIGHT && this.seconds > 0;
+    const running = state.status === MissionStatus.IN_FLIGHT ||
+                    state.status === MissionStatus.COUNTDOWN ||
+                    state.status === MissionStatus.CHECKS_IN_PROGRESS;
+    return running && this.seconds > 0;
   }
 
   getDescription(): string {
@@ -68,19 +155,465 @@ class FastForwardCommand extends BaseCommand {
   }
 }
 
+class SetTimeStepCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private seconds: number
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  private previousTimeStep: number | null = null;
+
+  protected perform(): void {
+    this.previousTimeStep = this.rocketSystem.getTimeStep();
+    this.rocketSystem.setTimeStep(this.seconds);
+  }
+
+  undo(): void {
+    super.undo();
+    if (this.previousTimeStep !== null) {
+      this.rocketSystem.setTimeStep(this.previousTimeStep);
+    }
+  }
+
+  canExecute(): boolean {
+    return this.seconds > 0;
+  }
+
+  getDescription(): string {
+    return `Set simulation time step to ${this.seconds} seconds`;
+  }
+}
+
+class LoadRocketCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private filePath: string
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected perform(): void {
+    const config = RocketConfigLoader.load(this.filePath);
+    this.rocketSystem.loadConfig(config);
+  }
+
+  canExecute(): boolean {
+    const state = this.rocketSystem.getState();
+    return state.status === MissionStatus.PRE_LAUNCH;
+  }
+
+  getDescription(): string {
+    return `Load rocket definition from ${this.filePath}`;
+  }
+}
+
+class RewindCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private seconds: number
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected perform(): void {
+    this.rocketSystem.rewind(this.seconds);
+  }
+
+  canExecute(): boolean {
+    const state = this.rocketSystem.getState();
+    const hasFlown = state.stage > 0 && (
+                     state.status === MissionStatus.IN_FLIGHT ||
+                     state.status === MissionStatus.ORBIT_ACHIEVED ||
+                     state.status === MissionStatus.MISSION_FAILED ||
+                     state.status === MissionStatus.ABORTED);
+    return hasFlown && this.seconds > 0;
+  }
+
+  getDescription(): string {
+    return `Rewind ${this.seconds} seconds`;
+  }
+}
+
+class SetSeedCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private seed: number
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  private previousRandom: IRandomSource | null = null;
+
+  protected perform(): void {
+    this.previousRandom = this.rocketSystem.getRandomSource();
+    this.rocketSystem.setRandomSource(new SeededRandom(this.seed));
+  }
+
+  undo(): void {
+    super.undo();
+    if (this.previousRandom !== null) {
+      this.rocketSystem.setRandomSource(this.previousRandom);
+    }
+  }
+
+  canExecute(): boolean {
+    return Number.isInteger(this.seed) && this.seed >= 0;
+  }
+
+  getDescription(): string {
+    return `Set random seed to ${this.seed}`;
+  }
+}
+
+// Throttle, pitch and program changes are only meaningful until the flight
+// is over.
+function isFlightActive(status: MissionStatus): boolean {
+  return status !== MissionStatus.ORBIT_ACHIEVED &&
+         status !== MissionStatus.MISSION_FAILED &&
+         status !== MissionStatus.ABORTED &&
+         status !== MissionStatus.SCRUBBED;
+}
+
+class ThrottleCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private percent: number
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected perform(): void {
+    this.rocketSystem.setThrottle(this.percent);
+  }
+
+  canExecute(): boolean {
+    return isFlightActive(this.rocketSystem.getState().status);
+  }
+
+  getDescription(): string {
+    return `Set throttle to ${this.percent}%`;
+  }
+}
+
+// The guidance setting lives outside the rocket state, so these commands put
+// it back themselves on undo.
+abstract class GuidanceCommand extends BaseCommand {
+  private previousGuidance: GuidanceSetting | null = null;
+
+  protected perform(): void {
+    const setting = this.createSetting();
+    this.previousGuidance = this.rocketSystem.getGuidance();
+    this.rocketSystem.setGuidance(setting);
+  }
+
+  undo(): void {
+    super.undo();
+    if (this.previousGuidance !== null) {
+      this.rocketSystem.setGuidance(this.previousGuidance);
+      this.previousGuidance = null;
+    }
+  }
+
+  canExecute(): boolean {
+    return isFlightActive(this.rocketSystem.getState().status);
+  }
+
+  protected abstract createSetting(): GuidanceSetting;
+}
+
+// `null` hands pitch back to the automatic gravity turn.
+class PitchCommand extends GuidanceCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private degrees: number | null
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected createSetting(): GuidanceSetting {
+    return this.degrees === null
+      ? { mode: GuidanceMode.GRAVITY_TURN }
+      : { mode: GuidanceMode.MANUAL, pitch: this.degrees };
+  }
+
+  canExecute(): boolean {
+    const validPitch = this.degrees === null || (this.degrees >= 0 && this.degrees <= 180);
+    return validPitch && super.canExecute();
+  }
+
+  getDescription(): string {
+    return this.degrees === null
+      ? 'Return pitch to automatic guidance'
+      : `Set pitch to ${this.degrees} degrees`;
+  }
+}
+
+class LoadProgramCommand extends GuidanceCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private filePath: string
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected createSetting(): GuidanceSetting {
+    return { mode: GuidanceMode.PROGRAM, program: GuidanceProgramLoader.load(this.filePath) };
+  }
+
+  getDescription(): string {
+    return `Load guidance program from ${this.filePath}`;
+  }
+}
+
+class AbortCommand extends BaseCommand {
+  protected perform(): void {
+    const mode = this.rocketSystem.abort();
+    this.logger.info(`Abort mode executed: ${mode}`);
+  }
+
+  canExecute(): boolean {
+    const state = this.rocketSystem.getState();
+    const onPad = state.status === MissionStatus.READY_TO_LAUNCH ||
+                  state.status === MissionStatus.HOLD ||
+                  state.status === MissionStatus.COUNTDOWN ||
+                  state.status === MissionStatus.COUNTDOWN_HOLD;
+    const inFlight = state.status === MissionStatus.IN_FLIGHT && state.abortMode === null;
+    return onPad || inFlight;
+  }
+
+  getDescription(): string {
+    return 'Abort the mission';
+  }
+}
+
+// Injected anomalies live outside the rocket state, so undo takes the
+// anomaly out again.
+class InjectAnomalyCommand extends BaseCommand {
+  private anomaly: IAnomaly | null = null;
+
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private type: AnomalyType
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected perform(): void {
+    this.anomaly = this.rocketSystem.injectAnomaly(this.type);
+  }
+
+  undo(): void {
+    super.undo();
+    if (this.anomaly !== null) {
+      this.rocketSystem.removeAnomaly(this.anomaly);
+      this.anomaly = null;
+    }
+  }
+
+  canExecute(): boolean {
+    const { status } = this.rocketSystem.getState();
+    return status === MissionStatus.COUNTDOWN ||
+           status === MissionStatus.COUNTDOWN_HOLD ||
+           status === MissionStatus.IN_FLIGHT;
+  }
+
+  getDescription(): string {
+    return `Inject anomaly ${this.type}`;
+  }
+}
+
+class ExportTelemetryCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private recorder: TelemetryRecorder,
+    private format: 'csv' | 'json',
+    private filePath: string
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected perform(): void {
+    if (this.format === 'csv') {
+      this.recorder.exportCsv(this.filePath);
+    } else {
+      this.recorder.exportJson(this.filePath);
+    }
+    this.logger.info(
+      `Exported ${this.recorder.getSamples().length} telemetry samples to ${this.filePath}`
+    );
+  }
+
+  // Writing a file does not change the rocket, so there is nothing to undo.
+  canUndo(): boolean {
+    return false;
+  }
+
+  canExecute(): boolean {
+    return this.filePath.length > 0;
+  }
+
+  getDescription(): string {
+    return `Export telemetry as ${this.format.toUpperCase()} to ${this.filePath}`;
+  }
+}
+
+// ============================================================================
+// SESSION COMMANDS (Save and Load)
+// ============================================================================
+
+// Everything a saved session carries besides the rocket itself.
+export interface ISessionParts {
+  invoker: CommandInvoker;
+  recorder: TelemetryRecorder;
+  scheduler: CommandScheduler;
+  flightRules: FlightRuleMonitor;
+}
+
+class SaveSessionCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private session: ISessionParts,
+    private filePath: string
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected perform(): void {
+    const { invoker, recorder, scheduler, flightRules } = this.session;
+    SaveFileManager.save(this.filePath, {
+      checkpoint: this.rocketSystem.createCheckpoint(),
+      commands: invoker.getHistoryRecords(),
+      telemetry: recorder.getSamples(),
+      schedule: scheduler.getEntries(),
+      flightRules: flightRules.getSession()
+    });
+    this.logger.info(`Session saved to ${this.filePath}`);
+  }
+
+  // Writing a file does not change the rocket, so there is nothing to undo.
+  canUndo(): boolean {
+    return false;
+  }
+
+  canExecute(): boolean {
+    return this.filePath.length > 0;
+  }
+
+  getDescription(): string {
+    return `Save session to ${this.filePath}`;
+  }
+}
+
+class LoadSessionCommand extends BaseCommand {
+  constructor(
+    rocketSystem: RocketSystem,
+    logger: ILogger,
+    private session: ISessionParts,
+    private filePath: string
+  ) {
+    super(rocketSystem, logger);
+  }
+
+  protected perform(): void {
+    const saveFile = SaveFileManager.load(this.filePath);
+    const { invoker, recorder, scheduler, flightRules } = this.session;
+    this.logger.info(
+      `Loading session saved ${saveFile.savedAt} ` +
+      `(${saveFile.commands.length} command(s), ${saveFile.telemetry.length} telemetry sample(s), ` +
+      `${saveFile.schedule.length} scheduled command(s), ${saveFile.flightRules.rules.length} flight rule(s))`
+    );
+    invoker.restoreHistory(saveFile.commands);
+    recorder.restore(saveFile.telemetry);
+    scheduler.restore(saveFile.schedule);
+    flightRules.restore(saveFile.flightRules);
+    this.rocketSystem.restoreCheckpoint(saveFile.checkpoint);
+  }
+
+  // The whole session is replaced, including the command history this
+  // command would be undone from.
+  canUndo(): boolean {
+    return false;
+  }
+
+  canExecute(): boolean {
+    return this.filePath.length > 0;
+  }
+
+  getDescription(): string {
+    return `Load session from ${this.filePath}`;
+  }
+}
+
+// Stands in for a command from a loaded session. Only its description
+// survives, so it can be listed but neither repeated nor undone.
+class RestoredCommand implements ICommand {
+  constructor(private description: string) {}
+
+  execute(): void {
+    throw new InvalidStateException(`Cannot repeat restored command: ${this.description}`);
+  }
+
+  undo(): void {
+    throw new InvalidStateException(`Cannot undo restored command: ${this.description}`);
+  }
+
+  canExecute(): boolean {
+    return false;
+  }
+
+  canUndo(): boolean {
+    return false;
+  }
+
+  getDescription(): string {
+    return this.description;
+  }
+}
+
 // ============================================================================
 // COMMAND INVOKER
 // ============================================================================
 
+interface IIssuedCommand {
+  command: ICommand;
+  missionTime: number;
+  status: MissionStatus;
+  triggered: IIssuedCommand[]; // run by the scheduler or a flight rule while this command ran
+}
+
 export class CommandInvoker {
-  private commandHistory: ICommand[] = [];
+  private commandHistory: IIssuedCommand[] = [];
+  private running: IIssuedCommand | null = null;
+  private activeCommand: ICommand | null = null;
   private logger: ILogger;
 
-  constructor(logger: ILogger) {
+  // `getState` stamps each command with the mission time and status it was
+  // issued at.
+  constructor(
+    logger: ILogger,
+    private getState: () => Pick<IRocketState, 'missionTime' | 'status'> =
+      () => ({ missionTime: 0, status: MissionStatus.PRE_LAUNCH })
+  ) {
     this.logger = logger;
   }
 
+  // A command that fires while another one runs, such as a scheduled
+  // command inside a fast_forward, is recorded under that command so that
+  // undoing the fast_forward takes both back together.
   executeCommand(command: ICommand): void {
+    const outer = this.running;
     try {
       if (!command.canExecute()) {
         throw new InvalidStateException(
@@ -88,9 +621,13 @@ export class CommandInvoker {
         );
       }
 
+      const { missionTime, status } = this.getState();
+      const issued: IIssuedCommand = { command, missionTime, status, triggered: [] };
+      this.running = issued;
+      this.activeCommand = command;
       this.logger.info(`Executing: ${command.getDescription()}`);
       command.execute();
-      this.commandHistory.push(command);
+      (outer ? outer.triggered : this.commandHistory).push(issued);
     } catch (error) {
       if (error instanceof SimulatorException) {
         this.logger.error(error.message);
@@ -98,12 +635,86 @@ export class CommandInvoker {
         this.logger.error('Command execution failed');
       }
       throw error;
+    } finally {
+      this.running = outer;
+      this.activeCommand = outer ? outer.command : null;
     }
   }
 
+  // Commands that changed nothing, such as export and save, are passed over;
+  // the log names them and the command that is undone instead.
+  undoLastCommand(): void {
+    let index = this.commandHistory.length - 1;
+    while (index >= 0 && !this.commandHistory[index].command.canUndo()) {
+      this.logger.info(`Skipping (cannot be undone): ${this.commandHistory[index].command.getDescription()}`);
+      index--;
+    }
+    if (index < 0) {
+      throw new InvalidStateException('Nothing to undo');
+    }
+    const [issued] = this.commandHistory.splice(index, 1);
+
+    try {
+      this.undo(issued);
+    } catch (error) {
+      this.commandHistory.splice(index, 0, issued);
+      if (error instanceof SimulatorException) {
+        this.logger.error(error.message);
+      } else {
+        this.logger.error('Undo failed');
+      }
+      throw error;
+    } finally {
+      this.activeCommand = null;
+    }
+  }
+
+  // Triggered commands go first, latest first, so that each one puts back
+  // what it found before the command that ran them does the same.
+  private undo(issued: IIssuedCommand): void {
+    [...issued.triggered].reverse()
+      .filter(triggered => triggered.command.canUndo())
+      .forEach(triggered => this.undo(triggered));
+    this.activeCommand = issued.command;
+    this.logger.info(`Undoing: ${issued.command.getDescription()}`);
+    issued.command.undo();
+  }
+
+  // The command being executed or undone, so log lines can be attributed.
+  getActiveCommand(): ICommand | null {
+    return this.activeCommand;
+  }
+
   getHistory(): ICommand[] {
-    return [...this.commandHistory];
+    return this.getIssued().map(({ command }) => command);
+  }
+
+  getHistoryRecords(): ICommandRecord[] {
+    return this.getIssued().map(({ command, missionTime, status }) => ({
+      description: command.getDescription(),
+      missionTime,
+      status
+    }));
+  }
+
+  restoreHistory(records: ICommandRecord[]): void {
+    this.commandHistory = records.map(record => ({
+      command: new RestoredCommand(record.description),
+      missionTime: record.missionTime,
+      status: record.status,
+      triggered: []
+    }));
+  }
+
+  // Every command in the order it was issued, triggered ones included.
+  private getIssued(entries: IIssuedCommand[] = this.commandHistory): IIssuedCommand[] {
+    return entries.reduce<IIssuedCommand[]>(
+      (all, issued) => [...all, issued, ...this.getIssued(issued.triggered)],
+      []
+    );
   }
 }
 
-export {StartChecksCommand, LaunchCommand, FastForwardCommand};
\ No newline at end of file
+export {StartChecksCommand, LaunchCommand, FastForwardCommand, SetTimeStepCommand, LoadRocketCommand, RewindCommand, SetSeedCommand, ExportTelemetryCommand, AbortCommand,
+        HoldCountdownCommand, ResumeCountdownCommand, RecycleCountdownCommand, SaveSessionCommand, LoadSessionCommand,
+        ThrottleCommand, PitchCommand, LoadProgramCommand, InjectAnomalyCommand};
\ No newline at end of file
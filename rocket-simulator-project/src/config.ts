@@ -0,0 +1,384 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { InvalidConfigException, SimulatorException } from './exceptions';
+import { SENSOR_FIELDS } from './sensors';
+import { ICheckConfig, ICountdownConfig, ICountdownEvent, IGuidanceConfig, IMissionTargets, IPreLaunchConfig, IRetryPolicy, IRocketConfig, ISensorConfig, ISensorModel, IStageConfig, SensorField } from './types';
+
+// ============================================================================
+// ROCKET CONFIGURATION
+// ============================================================================
+
+const DEFAULT_CHECK_FAILURE_RATES = {
+  transientFailureRate: 0.1,
+  hardwareFailureRate: 0.005
+};
+
+export const DEFAULT_PRE_LAUNCH_CONFIG: IPreLaunchConfig = {
+  checks: [
+    { name: 'Flight computer', duration: 2, ...DEFAULT_CHECK_FAILURE_RATES },
+    { name: 'Navigation system', duration: 3, ...DEFAULT_CHECK_FAILURE_RATES },
+    { name: 'Fuel tanks', duration: 4, ...DEFAULT_CHECK_FAILURE_RATES },
+    { name: 'Engine systems', duration: 5, ...DEFAULT_CHECK_FAILURE_RATES },
+    { name: 'Communication array', duration: 2, ...DEFAULT_CHECK_FAILURE_RATES }
+  ],
+  retryPolicy: {
+    maxAttempts: 3,
+    initialBackoff: 1,
+    backoffMultiplier: 2
+  }
+};
+
+export const DEFAULT_COUNTDOWN_CONFIG: ICountdownConfig = {
+  duration: 10,
+  events: [
+    { name: 'Guidance internal', at: 9 },
+    { name: 'Flight termination system armed', at: 6 },
+    { name: 'Engine ignition', at: 3 }
+  ]
+};
+
+export const DEFAULT_GUIDANCE_CONFIG: IGuidanceConfig = {
+  turnStartAltitude: 1,
+  turnEndAltitude: 100,
+  turnExponent: 0.5
+};
+
+export const DEFAULT_ROCKET_CONFIG: IRocketConfig = {
+  name: 'Default two-stage',
+  payloadMass: 1000,
+  stages: [
+    {
+      name: '1',
+      thrust: 2200000,
+      specificImpulse: 290,
+      dryMass: 15000,
+      propellantMass: 110000,
+      dragCoefficient: 0.3,
+      referenceArea: 10,
+      engines: 9,
+      separation: { fuelBelow: 0 }
+    },
+    {
+      name: '2',
+      thrust: 250000,
+      specificImpulse: 350,
+      dryMass: 2500,
+      propellantMass: 24000,
+      dragCoefficient: 0.25,
+      referenceArea: 10
+    }
+  ],
+  mission: {
+    orbitAltitude: 160,
+    abortOrbitAltitude: 120
+  },
+  guidance: DEFAULT_GUIDANCE_CONFIG,
+  preLaunch: DEFAULT_PRE_LAUNCH_CONFIG,
+  countdown: DEFAULT_COUNTDOWN_CONFIG,
+  sensors: {}
+};
+
+type RawObject = { [key: string]: unknown };
+
+export class RocketConfigLoader {
+  static load(filePath: string): IRocketConfig {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new SimulatorException(`Cannot read rocket file: ${filePath}`);
+    }
+
+    let raw: unknown;
+    try {
+      const extension = path.extname(filePath).toLowerCase();
+      raw = extension === '.yaml' || extension === '.yml'
+        ? parseYaml(contents)
+        : JSON.parse(contents);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown parse error';
+      throw new SimulatorException(`Cannot parse rocket file ${filePath}: ${reason}`);
+    }
+
+    return RocketConfigLoader.validate(raw);
+  }
+
+  static validate(raw: unknown): IRocketConfig {
+    const root = RocketConfigLoader.requireObject(raw, '(root)');
+
+    const stagesValue = root.stages;
+    if (!Array.isArray(stagesValue) || stagesValue.length === 0) {
+      throw new InvalidConfigException('stages', 'must be a non-empty list');
+    }
+
+    const stages = stagesValue.map((stage, index) =>
+      RocketConfigLoader.validateStage(stage, index, index === stagesValue.length - 1)
+    );
+
+    return {
+      name: RocketConfigLoader.requireString(root, 'name', 'name'),
+      payloadMass: RocketConfigLoader.requireNumber(root, 'payloadMass', 'payloadMass', 0),
+      stages,
+      mission: RocketConfigLoader.validateMission(root.mission),
+      guidance: RocketConfigLoader.validateGuidance(root.guidance),
+      preLaunch: RocketConfigLoader.validatePreLaunch(root.preLaunch),
+      countdown: RocketConfigLoader.validateCountdown(root.countdown),
+      sensors: RocketConfigLoader.validateSensors(root.sensors)
+    };
+  }
+
+  private static validateStage(raw: unknown, index: number, isFinal: boolean): IStageConfig {
+    const field = `stages[${index}]`;
+    const stage = RocketConfigLoader.requireObject(raw, field);
+
+    const config: IStageConfig = {
+      name: RocketConfigLoader.requireString(stage, 'name', `${field}.name`),
+      thrust: RocketConfigLoader.requirePositive(stage, 'thrust', `${field}.thrust`),
+      specificImpulse: RocketConfigLoader.requirePositive(stage, 'specificImpulse', `${field}.specificImpulse`),
+      dryMass: RocketConfigLoader.requirePositive(stage, 'dryMass', `${field}.dryMass`),
+      propellantMass: RocketConfigLoader.requirePositive(stage, 'propellantMass', `${field}.propellantMass`),
+      dragCoefficient: RocketConfigLoader.requireNumber(stage, 'dragCoefficient', `${field}.dragCoefficient`, 0),
+      referenceArea: RocketConfigLoader.requireNumber(stage, 'referenceArea', `${field}.referenceArea`, 0)
+    };
+
+    // Optional engine limits; the stage strategy supplies defaults
+    if (stage.throttle !== undefined) {
+      const throttle = RocketConfigLoader.requireObject(stage.throttle, `${field}.throttle`);
+      const min = RocketConfigLoader.requireNumber(throttle, 'min', `${field}.throttle.min`, 0, 100);
+      const max = RocketConfigLoader.requireNumber(throttle, 'max', `${field}.throttle.max`, 0, 100);
+      if (max < min || max === 0) {
+        throw new InvalidConfigException(`${field}.throttle.max`, 'must be above 0 and at least throttle.min');
+      }
+      config.throttle = { min, max };
+    }
+    if (stage.maxPitchRate !== undefined) {
+      config.maxPitchRate = RocketConfigLoader.requirePositive(stage, 'maxPitchRate', `${field}.maxPitchRate`);
+    }
+    if (stage.engines !== undefined) {
+      const engines = RocketConfigLoader.requirePositive(stage, 'engines', `${field}.engines`);
+      if (!Number.isInteger(engines)) {
+        throw new InvalidConfigException(`${field}.engines`, `must be a whole number (got ${engines})`);
+      }
+      config.engines = engines;
+    }
+
+    if (isFinal) {
+      if (stage.separation !== undefined) {
+        throw new InvalidConfigException(`${field}.separation`, 'is not allowed on the final stage');
+      }
+      return config;
+    }
+
+    const separation = RocketConfigLoader.requireObject(stage.separation, `${field}.separation`);
+    config.separation = {
+      fuelBelow: RocketConfigLoader.requireNumber(
+        separation, 'fuelBelow', `${field}.separation.fuelBelow`, 0, 100
+      )
+    };
+    return config;
+  }
+
+  private static validateMission(raw: unknown): IMissionTargets {
+    const mission = RocketConfigLoader.requireObject(raw, 'mission');
+    const orbitAltitude = RocketConfigLoader.requirePositive(mission, 'orbitAltitude', 'mission.orbitAltitude');
+
+    // Optional: abort-to-orbit settles for three quarters of the nominal orbit
+    let abortOrbitAltitude = orbitAltitude * 0.75;
+    if (mission.abortOrbitAltitude !== undefined) {
+      abortOrbitAltitude = RocketConfigLoader.requirePositive(
+        mission, 'abortOrbitAltitude', 'mission.abortOrbitAltitude'
+      );
+      if (abortOrbitAltitude > orbitAltitude) {
+        throw new InvalidConfigException(
+          'mission.abortOrbitAltitude', 'must not be above mission.orbitAltitude'
+        );
+      }
+    }
+
+    return { orbitAltitude, abortOrbitAltitude };
+  }
+
+  // Optional: sensors left out read the exact value.
+  private static validateSensors(raw: unknown): ISensorConfig {
+    if (raw === undefined) {
+      return {};
+    }
+    const sensors = RocketConfigLoader.requireObject(raw, 'sensors');
+    const config: ISensorConfig = {};
+    Object.keys(sensors).forEach(name => {
+      if (!SENSOR_FIELDS.includes(name as SensorField)) {
+        throw new InvalidConfigException(`sensors.${name}`, `is not a sensor (expected one of: ${SENSOR_FIELDS.join(', ')})`);
+      }
+      const field = `sensors.${name}`;
+      const sensor = RocketConfigLoader.requireObject(sensors[name], field);
+      const setting = (key: keyof ISensorModel, max: number): number =>
+        sensor[key] === undefined ? 0 : RocketConfigLoader.requireNumber(sensor, key, `${field}.${key}`, 0, max);
+      config[name as SensorField] = {
+        noise: setting('noise', Infinity),
+        resolution: setting('resolution', Infinity),
+        dropoutRate: setting('dropoutRate', 1)
+      };
+    });
+    return config;
+  }
+
+  private static validateGuidance(raw: unknown): IGuidanceConfig {
+    if (raw === undefined) {
+      return DEFAULT_GUIDANCE_CONFIG;
+    }
+    const guidance = RocketConfigLoader.requireObject(raw, 'guidance');
+    const setting = (key: keyof IGuidanceConfig, min: number): number =>
+      guidance[key] === undefined
+        ? DEFAULT_GUIDANCE_CONFIG[key]
+        : RocketConfigLoader.requireNumber(guidance, key, `guidance.${key}`, min);
+
+    const config: IGuidanceConfig = {
+      turnStartAltitude: setting('turnStartAltitude', 0),
+      turnEndAltitude: setting('turnEndAltitude', 0),
+      turnExponent: setting('turnExponent', 0)
+    };
+    if (config.turnEndAltitude <= config.turnStartAltitude) {
+      throw new InvalidConfigException(
+        'guidance.turnEndAltitude', 'must be above guidance.turnStartAltitude'
+      );
+    }
+    if (config.turnExponent === 0) {
+      throw new InvalidConfigException('guidance.turnExponent', 'must be greater than 0');
+    }
+    return config;
+  }
+
+  // The whole section is optional; missing parts fall back to the defaults.
+  private static validatePreLaunch(raw: unknown): IPreLaunchConfig {
+    if (raw === undefined) {
+      return DEFAULT_PRE_LAUNCH_CONFIG;
+    }
+    const preLaunch = RocketConfigLoader.requireObject(raw, 'preLaunch');
+
+    let checks = DEFAULT_PRE_LAUNCH_CONFIG.checks;
+    if (preLaunch.checks !== undefined) {
+      if (!Array.isArray(preLaunch.checks) || preLaunch.checks.length === 0) {
+        throw new InvalidConfigException('preLaunch.checks', 'must be a non-empty list');
+      }
+      checks = preLaunch.checks.map((check, index) => RocketConfigLoader.validateCheck(check, index));
+    }
+
+    let retryPolicy = DEFAULT_PRE_LAUNCH_CONFIG.retryPolicy;
+    if (preLaunch.retryPolicy !== undefined) {
+      retryPolicy = RocketConfigLoader.validateRetryPolicy(preLaunch.retryPolicy);
+    }
+
+    return { checks, retryPolicy };
+  }
+
+  private static validateCheck(raw: unknown, index: number): ICheckConfig {
+    const field = `preLaunch.checks[${index}]`;
+    const check = RocketConfigLoader.requireObject(raw, field);
+    const config: ICheckConfig = {
+      name: RocketConfigLoader.requireString(check, 'name', `${field}.name`),
+      duration: RocketConfigLoader.requirePositive(check, 'duration', `${field}.duration`),
+      transientFailureRate: RocketConfigLoader.requireNumber(
+        check, 'transientFailureRate', `${field}.transientFailureRate`, 0, 1
+      ),
+      hardwareFailureRate: RocketConfigLoader.requireNumber(
+        check, 'hardwareFailureRate', `${field}.hardwareFailureRate`, 0, 1
+      )
+    };
+
+    if (config.transientFailureRate + config.hardwareFailureRate > 1) {
+      throw new InvalidConfigException(field, 'failure rates must not add up to more than 1');
+    }
+    return config;
+  }
+
+  private static validateRetryPolicy(raw: unknown): IRetryPolicy {
+    const policy = RocketConfigLoader.requireObject(raw, 'preLaunch.retryPolicy');
+    const maxAttempts = RocketConfigLoader.requireNumber(
+      policy, 'maxAttempts', 'preLaunch.retryPolicy.maxAttempts', 1
+    );
+    if (!Number.isInteger(maxAttempts)) {
+      throw new InvalidConfigException('preLaunch.retryPolicy.maxAttempts', 'must be a whole number');
+    }
+
+    return {
+      maxAttempts,
+      initialBackoff: RocketConfigLoader.requireNumber(
+        policy, 'initialBackoff', 'preLaunch.retryPolicy.initialBackoff', 0
+      ),
+      backoffMultiplier: RocketConfigLoader.requireNumber(
+        policy, 'backoffMultiplier', 'preLaunch.retryPolicy.backoffMultiplier', 1
+      )
+    };
+  }
+
+  // Optional like preLaunch; events default only when the duration does too.
+  private static validateCountdown(raw: unknown): ICountdownConfig {
+    if (raw === undefined) {
+      return DEFAULT_COUNTDOWN_CONFIG;
+    }
+    const countdown = RocketConfigLoader.requireObject(raw, 'countdown');
+    const duration = RocketConfigLoader.requireNumber(countdown, 'duration', 'countdown.duration', 0);
+
+    let events: ICountdownEvent[] = [];
+    if (countdown.events !== undefined) {
+      if (!Array.isArray(countdown.events)) {
+        throw new InvalidConfigException('countdown.events', 'must be a list');
+      }
+      events = countdown.events.map((event, index) => {
+        const field = `countdown.events[${index}]`;
+        const entry = RocketConfigLoader.requireObject(event, field);
+        return {
+          name: RocketConfigLoader.requireString(entry, 'name', `${field}.name`),
+          at: RocketConfigLoader.requireNumber(entry, 'at', `${field}.at`, 0, duration)
+        };
+      });
+    }
+
+    return { duration, events };
+  }
+
+  private static requireObject(value: unknown, field: string): RawObject {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new InvalidConfigException(field, 'must be an object');
+    }
+    return value as RawObject;
+  }
+
+  private static requireString(source: RawObject, key: string, field: string): string {
+    const value = source[key];
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new InvalidConfigException(field, 'must be a non-empty string');
+    }
+    return value;
+  }
+
+  private static requireNumber(
+    source: RawObject,
+    key: string,
+    field: string,
+    min: number = -Infinity,
+    max: number = Infinity
+  ): number {
+    const value = source[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new InvalidConfigException(field, 'must be a number');
+    }
+    if (value < min || value > max) {
+      const range = max === Infinity ? `>= ${min}` : `between ${min} and ${max}`;
+      throw new InvalidConfigException(field, `must be ${range} (got ${value})`);
+    }
+    return value;
+  }
+
+  private static requirePositive(source: RawObject, key: string, field: string): number {
+    const value = RocketConfigLoader.requireNumber(source, key, field);
+    if (value <= 0) {
+      throw new InvalidConfigException(field, `must be greater than 0 (got ${value})`);
+    }
+    return value;
+  }
+}
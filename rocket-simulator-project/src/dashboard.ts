@@ -0,0 +1,172 @@
+import { formatMissionTime } from './format';
+import { ConsoleLogger } from './logger';
+import { ATMOSPHERE_LIMIT, orbitalElements } from './physics';
+import { IRocketObserver, RocketSystem } from './rocketSystem';
+import { IRocketState, MissionStatus } from './types';
+
+// ============================================================================
+// DASHBOARD (Observer Implementation)
+// ============================================================================
+
+const ESC = '\x1b[';
+const RESET = `${ESC}0m`;
+const BOLD = `${ESC}1m`;
+const DIM = `${ESC}2m`;
+const RED = `${ESC}31m`;
+const GREEN = `${ESC}32m`;
+const YELLOW = `${ESC}33m`;
+const CYAN = `${ESC}36m`;
+const SAVE_CURSOR = '\x1b7';
+const RESTORE_CURSOR = '\x1b8';
+const CLEAR_LINE = `${ESC}2K`;
+
+const GAUGE_WIDTH = 30;
+const EVENT_LINES = 6;
+const MAX_GAUGE_SPEED = 30000; // km/h, comfortably above orbital speed
+const RENDER_INTERVAL = 50; // ms between redraws while the simulation runs
+
+const STATUS_COLORS: { [status: string]: string } = {
+  [MissionStatus.ORBIT_ACHIEVED]: GREEN,
+  [MissionStatus.READY_TO_LAUNCH]: GREEN,
+  [MissionStatus.MISSION_FAILED]: RED,
+  [MissionStatus.SCRUBBED]: RED,
+  [MissionStatus.ABORTED]: RED,
+  [MissionStatus.HOLD]: YELLOW,
+  [MissionStatus.COUNTDOWN_HOLD]: YELLOW
+};
+
+// Draws a fixed panel at the top of the terminal and confines normal output
+// (the prompt, help and status text) to a scroll region underneath it.
+export class DashboardDisplay implements IRocketObserver {
+  private state: IRocketState;
+  private lastRender = 0;
+  private pendingRender: NodeJS.Timeout | null = null;
+  private panelHeight = 0;
+
+  constructor(
+    private rocketSystem: RocketSystem,
+    private logger: ConsoleLogger,
+    private output: NodeJS.WriteStream = process.stdout
+  ) {
+    this.state = rocketSystem.getTelemetry();
+  }
+
+  onStateUpdate(state: IRocketState): void {
+    this.state = { ...state };
+
+    // fast_forward can produce thousands of updates in one go; redraw at most
+    // every RENDER_INTERVAL and make sure the last update is drawn.
+    const wait = RENDER_INTERVAL - (Date.now() - this.lastRender);
+    if (wait <= 0) {
+      this.render();
+    } else if (!this.pendingRender) {
+      this.pendingRender = setTimeout(() => this.render(), wait);
+    }
+  }
+
+  render(): void {
+    if (this.pendingRender) {
+      clearTimeout(this.pendingRender);
+      this.pendingRender = null;
+    }
+    this.lastRender = Date.now();
+
+    const lines = this.buildPanel();
+    const firstRender = this.panelHeight === 0;
+    let frame = firstRender ? `${ESC}2J` : SAVE_CURSOR;
+
+    if (lines.length !== this.panelHeight) {
+      // Reserve the rows above the scroll region for the panel
+      this.panelHeight = lines.length;
+      const rows = this.output.rows || 24;
+      frame += `${ESC}${this.panelHeight + 1};${rows}r`;
+    }
+
+    lines.forEach((line, index) => {
+      frame += `${ESC}${index + 1};1H${CLEAR_LINE}${line}`;
+    });
+    frame += firstRender ? `${ESC}${this.panelHeight + 1};1H` : RESTORE_CURSOR;
+    this.output.write(frame);
+  }
+
+  // Clears the panel and hands the whole terminal back.
+  dispose(): void {
+    if (this.pendingRender) {
+      clearTimeout(this.pendingRender);
+      this.pendingRender = null;
+    }
+    this.output.write(`${ESC}r${ESC}2J${ESC}H`);
+  }
+
+  private buildPanel(): string[] {
+    const config = this.rocketSystem.getConfig();
+    const width = Math.max((this.output.columns || 80) - 1, 40);
+    const state = this.state;
+    const statusColor = STATUS_COLORS[state.status] || CYAN;
+    const lines: string[] = [];
+
+    lines.push(`${BOLD}ROCKET LAUNCH SIMULATOR${RESET}  ${DIM}${config.name}${RESET}`);
+    lines.push(
+      `Status: ${statusColor}${BOLD}${state.status}${RESET}` +
+      (state.abortMode ? ` ${RED}(${state.abortMode})${RESET}` : '') +
+      `   Time: ${formatMissionTime(state.missionTime)}` +
+      `   Stage: ${state.stage}` +
+      `   Throttle: ${state.throttle.toFixed(0)}%` +
+      `   Seed: ${this.rocketSystem.getRandomSource().getSeed()}`
+    );
+    lines.push(
+      `Altitude  ${this.gauge(state.altitude / config.mission.orbitAltitude, CYAN)} ` +
+      `${state.altitude.toFixed(1)} / ${config.mission.orbitAltitude} km`
+    );
+    lines.push(
+      `Speed     ${this.gauge(state.speed / MAX_GAUGE_SPEED, CYAN)} ` +
+      `${state.speed.toFixed(0)} km/h`
+    );
+    lines.push(this.buildOrbitLine());
+
+    config.stages.forEach((stage, index) => {
+      const stageNumber = index + 1;
+      const fuel = stageNumber < state.stage ? 0
+        : stageNumber === state.stage ? state.fuel
+        : 100;
+      const color = fuel < 10 ? RED : fuel < 30 ? YELLOW : GREEN;
+      const label = `Fuel ${stage.name}`.padEnd(9).slice(0, 9);
+      lines.push(`${label} ${this.gauge(fuel / 100, color)} ${fuel.toFixed(1)}%`);
+    });
+
+    lines.push(`${DIM}${'─'.repeat(8)} Recent events ${'─'.repeat(Math.max(width - 23, 0))}${RESET}`);
+    const events = this.logger.getHistory().slice(-EVENT_LINES);
+    for (let i = 0; i < EVENT_LINES; i++) {
+      const event = events[i] ? this.formatEvent(events[i]) : '';
+      lines.push(event.slice(0, width));
+    }
+    lines.push(`${DIM}${'─'.repeat(width)}${RESET}`);
+
+    return lines;
+  }
+
+  // Periapsis climbing out of the atmosphere is what the ascent is for. The
+  // orbit is worked out from telemetry, as the ground would.
+  private buildOrbitLine(): string {
+    if (this.state.stage === 0) {
+      return `${DIM}Orbit     on the pad${RESET}`;
+    }
+    const { altitude, velocity, horizontalVelocity } = this.state;
+    const { apoapsis, periapsis } = orbitalElements(altitude * 1000, velocity, horizontalVelocity);
+    const apoapsisText = Number.isFinite(apoapsis) ? `${apoapsis.toFixed(0)} km` : 'escape';
+    const periapsisColor = periapsis * 1000 >= ATMOSPHERE_LIMIT ? GREEN : periapsis >= 0 ? YELLOW : RED;
+    return `Orbit     Ap ${apoapsisText}   Pe ${periapsisColor}${periapsis.toFixed(0)} km${RESET}` +
+           `   Pitch ${this.state.pitch.toFixed(0)}°   Downrange ${this.state.downrange.toFixed(0)} km`;
+  }
+
+  private gauge(fraction: number, color: string): string {
+    const clamped = Math.min(Math.max(fraction, 0), 1);
+    const filled = Math.round(clamped * GAUGE_WIDTH);
+    return `[${color}${'█'.repeat(filled)}${RESET}${DIM}${'░'.repeat(GAUGE_WIDTH - filled)}${RESET}]`;
+  }
+
+  // Log lines carry an ISO timestamp the panel has no room for.
+  private formatEvent(line: string): string {
+    return line.replace(/ \[\d{4}-\d{2}-\d{2}T[\d:.]+Z\]/, '');
+  }
+}
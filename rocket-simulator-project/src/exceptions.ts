@@ -7,15 +7,60 @@ export class SimulatorException extends Error {
 }
 
 export class InvalidCommandException extends SimulatorException {
-  constructor(command: string) {
-    super(`Invalid command: ${command}`);
+  constructor(command: string, suggestions: string[] = []) {
+    const hint = suggestions.length > 0
+      ? `. Did you mean ${suggestions.map(name => `"${name}"`).join(' or ')}?`
+      : '';
+    super(`Invalid command: ${command}${hint}`);
     this.name = 'InvalidCommandException';
   }
 }
 
+export class InvalidArgumentException extends SimulatorException {
+  constructor(command: string, argument: string, problem: string, usage: string) {
+    super(`${command}: ${argument} ${problem}. Usage: ${usage}`);
+    this.name = 'InvalidArgumentException';
+  }
+}
+
 export class InvalidStateException extends SimulatorException {
   constructor(message: string) {
     super(message);
     this.name = 'InvalidStateException';
   }
-}
\ No newline at end of file
+}
+
+export class InvalidConfigException extends SimulatorException {
+  constructor(field: string, problem: string) {
+    super(`Invalid rocket configuration: "${field}" ${problem}`);
+    this.name = 'InvalidConfigException';
+  }
+}
+
+export class InvalidProgramException extends SimulatorException {
+  constructor(field: string, problem: string) {
+    super(`Invalid guidance program: "${field}" ${problem}`);
+    this.name = 'InvalidProgramException';
+  }
+}
+
+export class InvalidFlightRulesException extends SimulatorException {
+  constructor(field: string, problem: string) {
+    super(`Invalid flight rules: "${field}" ${problem}`);
+    this.name = 'InvalidFlightRulesException';
+  }
+}
+
+export class InvalidSaveFileException extends SimulatorException {
+  constructor(filePath: string, problem: string) {
+    super(`Invalid save file ${filePath}: ${problem}`);
+    this.name = 'InvalidSaveFileException';
+  }
+}
+
+export class ScriptException extends SimulatorException {
+  constructor(location: string, message: string) {
+    super(`${location}: ${message}`);
+    this.name = 'ScriptException';
+  }
+}
@@ -0,0 +1,10 @@
+// ============================================================================
+// FORMATTING HELPERS
+// ============================================================================
+
+// Mission time is negative during the countdown: -5 reads as T-5.0s.
+export function formatMissionTime(missionTime: number): string {
+  return missionTime < 0
+    ? `T-${(-missionTime).toFixed(1)}s`
+    : `T+${missionTime.toFixed(1)}s`;
+}
@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { InvalidProgramException, SimulatorException } from "./exceptions";
+import { EARTH_RADIUS, gravityAt } from "./physics";
+import { GuidanceMode, GuidanceSetting, IGuidanceConfig, IGuidancePoint, IGuidanceProgram, IGuidanceStrategy, IRocketState } from "./types";
+
+// ============================================================================
+// GUIDANCE (Strategy Pattern)
+// ============================================================================
+
+const CLIMB_TIME_CONSTANT = 60;    // s to close the gap to the target altitude
+const VELOCITY_TIME_CONSTANT = 10; // s to reach the commanded climb rate
+const MAX_DOWNWARD_SHARE = 0.5;    // pitch at most 30 degrees below the horizon
+
+// The first stage flies an open-loop gravity turn through the atmosphere.
+// Upper stages point the thrust so that the climb rate dies away as the
+// target altitude is reached, leaving the rest of the thrust to build up
+// horizontal speed.
+export class GravityTurnGuidance implements IGuidanceStrategy {
+  constructor(private config: IGuidanceConfig) {}
+
+  getPitch(state: IRocketState, thrustAcceleration: number, targetAltitude: number): number {
+    if (state.stage <= 1) {
+      return this.getProgramPitch(state.altitude);
+    }
+    return this.getInsertionPitch(state, thrustAcceleration, targetAltitude);
+  }
+
+  getName(): string {
+    return 'Gravity turn';
+  }
+
+  private getProgramPitch(altitude: number): number {
+    const { turnStartAltitude, turnEndAltitude, turnExponent } = this.config;
+    if (altitude <= turnStartAltitude) {
+      return 0;
+    }
+    const progress = Math.min((altitude - turnStartAltitude) / (turnEndAltitude - turnStartAltitude), 1);
+    return 90 * Math.pow(progress, turnExponent);
+  }
+
+  private getInsertionPitch(state: IRocketState, thrustAcceleration: number, targetAltitude: number): number {
+    if (thrustAcceleration <= 0) {
+      return 90;
+    }
+
+    // Gravity less the centrifugal lift of the horizontal speed
+    const altitude = state.altitude * 1000;
+    const radius = EARTH_RADIUS + altitude;
+    const netGravity = gravityAt(altitude) -
+      state.horizontalVelocity * state.horizontalVelocity / radius;
+
+    // Never climb faster than already climbing: thrust spent going up is
+    // thrust not spent on horizontal speed.
+    const climbRate = Math.min(
+      (targetAltitude * 1000 - altitude) / CLIMB_TIME_CONSTANT,
+      Math.max(state.velocity, 0)
+    );
+    const verticalAcceleration = (climbRate - state.velocity) / VELOCITY_TIME_CONSTANT;
+    const verticalShare = (verticalAcceleration + netGravity) / thrustAcceleration;
+    return Math.acos(Math.min(Math.max(verticalShare, -MAX_DOWNWARD_SHARE), 1)) * 180 / Math.PI;
+  }
+}
+
+// Holds whatever pitch the crew dialled in.
+export class ManualPitchGuidance implements IGuidanceStrategy {
+  constructor(private pitch: number) {}
+
+  getPitch(): number {
+    return this.pitch;
+  }
+
+  getName(): string {
+    return `Manual pitch ${this.pitch}°`;
+  }
+}
+
+// Flies a time-indexed table, interpolating linearly between rows and
+// holding the first and last rows outside the table. Tables without a
+// throttle column leave the throttle to the crew.
+export class ProgramGuidance implements IGuidanceStrategy {
+  constructor(private program: IGuidanceProgram) {}
+
+  getPitch(state: IRocketState): number {
+    return this.interpolate(state.missionTime, point => point.pitch);
+  }
+
+  getThrottle(state: IRocketState): number {
+    if (!ProgramGuidance.controlsThrottle(this.program)) {
+      return state.throttle;
+    }
+    return this.interpolate(state.missionTime, point => point.throttle!);
+  }
+
+  getName(): string {
+    return `Program '${this.program.name}'`;
+  }
+
+  static controlsThrottle(program: IGuidanceProgram): boolean {
+    return program.points[0].throttle !== undefined;
+  }
+
+  private interpolate(time: number, value: (point: IGuidancePoint) => number): number {
+    const points = this.program.points;
+    if (time <= points[0].time) {
+      return value(points[0]);
+    }
+    for (let i = 1; i < points.length; i++) {
+      if (time <= points[i].time) {
+        const from = points[i - 1];
+        const to = points[i];
+        const progress = (time - from.time) / (to.time - from.time);
+        return value(from) + (value(to) - value(from)) * progress;
+      }
+    }
+    return value(points[points.length - 1]);
+  }
+}
+
+export class GuidanceFactory {
+  constructor(private config: IGuidanceConfig) {}
+
+  createGuidance(setting: GuidanceSetting): IGuidanceStrategy {
+    switch (setting.mode) {
+      case GuidanceMode.GRAVITY_TURN:
+        return new GravityTurnGuidance(this.config);
+      case GuidanceMode.MANUAL:
+        return new ManualPitchGuidance(setting.pitch);
+      case GuidanceMode.PROGRAM:
+        return new ProgramGuidance(setting.program);
+    }
+  }
+}
+
+// ============================================================================
+// GUIDANCE PROGRAMS (Table Loader)
+// ============================================================================
+
+type RawObject = { [key: string]: unknown };
+
+export class GuidanceProgramLoader {
+  static load(filePath: string): IGuidanceProgram {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new SimulatorException(`Cannot read guidance program: ${filePath}`);
+    }
+
+    let raw: unknown;
+    try {
+      const extension = path.extname(filePath).toLowerCase();
+      raw = extension === '.yaml' || extension === '.yml'
+        ? parseYaml(contents)
+        : JSON.parse(contents);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown parse error';
+      throw new SimulatorException(`Cannot parse guidance program ${filePath}: ${reason}`);
+    }
+
+    return GuidanceProgramLoader.validate(raw, path.basename(filePath, path.extname(filePath)));
+  }
+
+  // Rows must be in time order; throttle is all-or-nothing so the table
+  // never hands the throttle back and forth mid-flight.
+  static validate(raw: unknown, defaultName: string): IGuidanceProgram {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new InvalidProgramException('(root)', 'must be an object');
+    }
+    const root = raw as RawObject;
+
+    let name = defaultName;
+    if (root.name !== undefined) {
+      if (typeof root.name !== 'string' || root.name.trim() === '') {
+        throw new InvalidProgramException('name', 'must be a non-empty string');
+      }
+      name = root.name;
+    }
+
+    if (!Array.isArray(root.points) || root.points.length === 0) {
+      throw new InvalidProgramException('points', 'must be a non-empty list');
+    }
+    const points = root.points.map((entry, index) => GuidanceProgramLoader.validatePoint(entry, index));
+
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].time <= points[i - 1].time) {
+        throw new InvalidProgramException(`points[${i}].time`, 'must be later than the row before');
+      }
+    }
+    const withThrottle = points.filter(point => point.throttle !== undefined).length;
+    if (withThrottle !== 0 && withThrottle !== points.length) {
+      throw new InvalidProgramException('points', 'must either all have a throttle or none');
+    }
+
+    return { name, points };
+  }
+
+  private static validatePoint(raw: unknown, index: number): IGuidancePoint {
+    const field = `points[${index}]`;
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new InvalidProgramException(field, 'must be an object');
+    }
+    const entry = raw as RawObject;
+
+    const point: IGuidancePoint = {
+      time: GuidanceProgramLoader.requireNumber(entry, 'time', field, 0, Infinity),
+      pitch: GuidanceProgramLoader.requireNumber(entry, 'pitch', field, 0, 180)
+    };
+    if (entry.throttle !== undefined) {
+      point.throttle = GuidanceProgramLoader.requireNumber(entry, 'throttle', field, 0, 100);
+    }
+    return point;
+  }
+
+  private static requireNumber(
+    source: RawObject,
+    key: string,
+    parent: string,
+    min: number,
+    max: number
+  ): number {
+    const value = source[key];
+    const field = `${parent}.${key}`;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new InvalidProgramException(field, 'must be a number');
+    }
+    if (value < min || value > max) {
+      const range = max === Infinity ? `>= ${min}` : `between ${min} and ${max}`;
+      throw new InvalidProgramException(field, `must be ${range} (got ${value})`);
+    }
+    return value;
+  }
+}
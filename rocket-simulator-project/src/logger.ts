@@ -1,13 +1,147 @@
-import { ILogger } from "./types";
+import * as fs from 'fs';
+import { SimulatorException } from './exceptions';
+import { formatMissionTime } from './format';
+import { ILogEntry, ILogFields, ILogger, ILogSink, LogLevel } from "./types";
 
 
+// ============================================================================
+// LOG LEVELS AND FORMATTING
+// ============================================================================
+
+const LOG_LEVEL_ORDER: LogLevel[] = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR];
+
+export function isAtLeast(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVEL_ORDER.indexOf(level) >= LOG_LEVEL_ORDER.indexOf(minimum);
+}
+
+export function parseLogLevel(value: string | undefined): LogLevel {
+  const level = LOG_LEVEL_ORDER.find(candidate => candidate === value?.toUpperCase());
+  if (!level) {
+    throw new SimulatorException('Log level must be one of debug, info, warn or error');
+  }
+  return level;
+}
+
+// `[INFO] [timestamp] message`, optionally with the structured fields in
+// between for outputs that are read after the fact.
+export function formatLogEntry(entry: ILogEntry, includeFields: boolean = false): string {
+  let context = '';
+  if (includeFields) {
+    const { missionTime, stage, command } = entry.fields;
+    const parts: string[] = [];
+    if (missionTime !== undefined) {
+      parts.push(formatMissionTime(missionTime));
+    }
+    if (stage !== undefined) {
+      parts.push(`stage=${stage}`);
+    }
+    if (command !== undefined) {
+      parts.push(`command="${command}"`);
+    }
+    context = parts.length > 0 ? ` [${parts.join(' ')}]` : '';
+  }
+  return `[${entry.level}] [${entry.timestamp}]${context} ${entry.message}`;
+}
+
+// ============================================================================
+// LOG SINKS
+// ============================================================================
+
+export class ConsoleSink implements ILogSink {
+  write(entry: ILogEntry): void {
+    const line = formatLogEntry(entry);
+    if (entry.level === LogLevel.ERROR) {
+      console.error(line);
+    } else if (entry.level === LogLevel.WARN) {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+// Appends formatted lines to a file. Once the file would exceed `maxBytes` it
+// is renamed to `<file>.1` (shifting older files up to `<file>.<maxFiles>`)
+// and a fresh file is started.
+export class RotatingFileSink implements ILogSink {
+  private size: number;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly maxBytes: number = 1024 * 1024,
+    private readonly maxFiles: number = 3
+  ) {
+    if (!Number.isFinite(maxBytes) || maxBytes <= 0) {
+      throw new SimulatorException('Log file size limit must be a positive number of bytes');
+    }
+    if (!Number.isInteger(maxFiles) || maxFiles < 0) {
+      throw new SimulatorException('Number of rotated log files must be a whole number');
+    }
+    this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  write(entry: ILogEntry): void {
+    const line = this.format(entry) + '\n';
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(this.filePath, line);
+    this.size += bytes;
+  }
+
+  protected format(entry: ILogEntry): string {
+    return formatLogEntry(entry, true);
+  }
+
+  private rotate(): void {
+    if (this.maxFiles === 0) {
+      fs.unlinkSync(this.filePath);
+    } else {
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        const source = `${this.filePath}.${index}`;
+        if (fs.existsSync(source)) {
+          fs.renameSync(source, `${this.filePath}.${index + 1}`);
+        }
+      }
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    }
+    this.size = 0;
+  }
+}
+
+// One JSON object per line, for feeding batch runs into other tools.
+export class JsonLinesSink extends RotatingFileSink {
+  protected format(entry: ILogEntry): string {
+    return JSON.stringify(entry);
+  }
+}
+
+// ============================================================================
+// SILENT LOGGER (Null Object)
+// ============================================================================
+
+// For batch runs that drive thousands of missions and only want the results.
+export class NullLogger implements ILogger {
+  debug(): void {}
+  info(): void {}
+  warn(): void {}
+  error(): void {}
+}
+
 // ============================================================================
 // LOGGER IMPLEMENTATION (Singleton Pattern)
 // ============================================================================
 
+export type LogContextProvider = () => ILogFields;
+
 export class ConsoleLogger implements ILogger {
   private static instance: ConsoleLogger;
-  private logHistory: string[] = [];
+  private logHistory: ILogEntry[] = [];
+  private historyLimit = 1000;
+  private minimumLevel = LogLevel.INFO;
+  private sinks: ILogSink[] = [new ConsoleSink()];
+  private contextProvider: LogContextProvider | null = null;
 
   private constructor() {}
 
@@ -18,28 +152,97 @@ export class ConsoleLogger implements ILogger {
     return ConsoleLogger.instance;
   }
 
-  info(message: string): void {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[INFO] [${timestamp}] ${message}`;
-    console.log(logMessage);
-    this.logHistory.push(logMessage);
+  debug(message: string, fields?: ILogFields): void {
+    this.log(LogLevel.DEBUG, message, fields);
+  }
+
+  info(message: string, fields?: ILogFields): void {
+    this.log(LogLevel.INFO, message, fields);
+  }
+
+  warn(message: string, fields?: ILogFields): void {
+    this.log(LogLevel.WARN, message, fields);
+  }
+
+  error(message: string, fields?: ILogFields): void {
+    this.log(LogLevel.ERROR, message, fields);
+  }
+
+  setMinimumLevel(level: LogLevel): void {
+    this.minimumLevel = level;
+  }
+
+  getMinimumLevel(): LogLevel {
+    return this.minimumLevel;
   }
 
-  warn(message: string): void {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[WARN] [${timestamp}] ${message}`;
-    console.warn(logMessage);
-    this.logHistory.push(logMessage);
+  // Full-screen displays drop the console sink and read the history instead.
+  setSinks(sinks: ILogSink[]): void {
+    this.sinks = [...sinks];
   }
 
-  error(message: string): void {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[ERROR] [${timestamp}] ${message}`;
-    console.error(logMessage);
-    this.logHistory.push(logMessage);
+  addSink(sink: ILogSink): void {
+    this.sinks.push(sink);
   }
 
+  // Fills in fields such as mission time and stage that the caller did not
+  // pass explicitly.
+  setContextProvider(provider: LogContextProvider | null): void {
+    this.contextProvider = provider;
+  }
+
+  setHistoryLimit(limit: number): void {
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new SimulatorException('Log history limit must be a positive whole number');
+    }
+    this.historyLimit = limit;
+    this.trimHistory();
+  }
+
+  // What the sinks were given: entries at the minimum level or above.
   getHistory(): string[] {
-    return [...this.logHistory];
+    return this.logHistory
+      .filter(entry => isAtLeast(entry.level, this.minimumLevel))
+      .map(entry => formatLogEntry(entry));
+  }
+
+  // The most recent `count` entries at `minimum` level or above.
+  getEntries(count: number = Infinity, minimum: LogLevel = LogLevel.DEBUG): ILogEntry[] {
+    const matching = this.logHistory.filter(entry => isAtLeast(entry.level, minimum));
+    return count >= matching.length ? matching : matching.slice(matching.length - count);
+  }
+
+  // The history keeps every level, so entries below the minimum can still
+  // be listed afterwards; only the sinks are filtered.
+  private log(level: LogLevel, message: string, fields: ILogFields = {}): void {
+    const context = this.contextProvider ? this.contextProvider() : {};
+    const entry: ILogEntry = {
+      level,
+      timestamp: new Date().toISOString(),
+      message,
+      fields: { ...context, ...fields }
+    };
+
+    this.logHistory.push(entry);
+    this.trimHistory();
+    if (!isAtLeast(level, this.minimumLevel)) {
+      return;
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        // Logging must never take the simulation down with it
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`Log sink failed: ${reason}`);
+      }
+    }
+  }
+
+  private trimHistory(): void {
+    if (this.logHistory.length > this.historyLimit) {
+      this.logHistory.splice(0, this.logHistory.length - this.historyLimit);
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,303 @@
+import * as fs from 'fs';
+import { SimulatorException } from './exceptions';
+import { NullLogger } from './logger';
+import { SeededRandom } from './random';
+import { gaussian } from './sensors';
+import { IRocketObserver, RocketSystem } from './rocketSystem';
+import { CheckOutcome, IRandomSource, IRocketConfig, IRocketState, MissionStatus, RocketEvent, RocketEventType, StateFeed } from './types';
+
+// ============================================================================
+// MONTE CARLO ANALYSIS (Batch Runner)
+// ============================================================================
+
+const FLIGHT_CHUNK = 60;        // s simulated per advanceTime call
+const MAX_MISSION_TIME = 7200;  // s, give up on flights that never end
+const DISPERSION_LIMIT = 3;     // draws are clamped to +-3 sigma
+const PERCENTILES = [5, 50, 95];
+
+// One standard deviation, in percent of the nominal value.
+export interface IDispersions {
+  thrust: number;           // each stage independently
+  propellant: number;       // tank loading of each stage
+  checkFailureRate: number; // both failure rates of each check
+}
+
+export const DEFAULT_DISPERSIONS: IDispersions = {
+  thrust: 2,
+  propellant: 1,
+  checkFailureRate: 25
+};
+
+export interface IMonteCarloRun {
+  run: number;
+  seed: number;
+  success: boolean;
+  cause: string | null; // failure cause, null on success
+  missionTime: number;  // s at the end of the run
+  maxAltitude: number;  // km
+  fuelRemaining: number; // % of the stage burning at the end
+}
+
+export interface IPercentileSummary {
+  min: number;
+  mean: number;
+  max: number;
+  percentiles: { [percentile: string]: number }; // e.g. "p50"
+}
+
+export interface IFailureCause {
+  cause: string;
+  count: number;
+  fraction: number;
+}
+
+export interface IMonteCarloReport {
+  rocket: string;
+  seed: number;
+  dispersions: IDispersions;
+  runs: number;
+  launched: number;
+  successes: number;
+  successProbability: number;
+  failureCauses: IFailureCause[];
+  // Over the runs that left the pad
+  statistics: {
+    maxAltitude: IPercentileSummary | null;
+    fuelRemaining: IPercentileSummary | null;
+  };
+  results: IMonteCarloRun[];
+}
+
+// Watches one mission for the figures and the event that ended it.
+class RunTracker implements IRocketObserver {
+  maxAltitude = 0;
+  cause: string | null = null;
+
+  onStateUpdate(state: IRocketState): void {
+    this.maxAltitude = Math.max(this.maxAltitude, state.altitude);
+  }
+
+  onEvent(event: RocketEvent): void {
+    if (event.type === RocketEventType.CHECKS_COMPLETED && event.outcome !== CheckOutcome.PASSED) {
+      this.cause = event.outcome === CheckOutcome.HARDWARE_FAULT
+        ? `Scrub: ${event.failedCheck} hardware fault`
+        : `Hold: ${event.failedCheck} did not clear`;
+    } else if (event.type === RocketEventType.MISSION_FAILED) {
+      // Group by trajectory; the reason text carries run-specific numbers
+      this.cause = event.trajectory
+        ? `${event.trajectory} trajectory`
+        : event.reason.charAt(0).toUpperCase() + event.reason.slice(1);
+    }
+  }
+}
+
+// Runs complete missions headless, each with its own dispersed copy of the
+// rocket. The whole batch is reproducible from the one seed.
+export class MonteCarloRunner {
+  constructor(
+    private config: IRocketConfig,
+    private dispersions: IDispersions = DEFAULT_DISPERSIONS,
+    private seed: number = SeededRandom.generateSeed()
+  ) {
+    Object.entries(dispersions).forEach(([name, value]) => {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new SimulatorException(`Dispersion '${name}' must be a percentage of 0 or more`);
+      }
+    });
+  }
+
+  run(runs: number): IMonteCarloReport {
+    if (!Number.isInteger(runs) || runs <= 0) {
+      throw new SimulatorException('Number of runs must be a positive whole number');
+    }
+
+    const seeds = new SeededRandom(this.seed);
+    const results: IMonteCarloRun[] = [];
+    for (let run = 1; run <= runs; run++) {
+      results.push(this.runMission(run, Math.floor(seeds.next() * 0x100000000)));
+    }
+    return this.summarize(results);
+  }
+
+  private runMission(run: number, seed: number): IMonteCarloRun {
+    const random = new SeededRandom(seed);
+    const system = new RocketSystem(new NullLogger(), this.disperse(random), random);
+    const tracker = new RunTracker();
+    system.addObserver(tracker, undefined, StateFeed.TRUTH);
+
+    try {
+      system.performPreLaunchChecks();
+      while (system.getState().status === MissionStatus.CHECKS_IN_PROGRESS) {
+        system.advanceTime(FLIGHT_CHUNK);
+      }
+      if (system.getState().status === MissionStatus.READY_TO_LAUNCH) {
+        system.launch();
+        while (this.isRunning(system.getState())) {
+          system.advanceTime(FLIGHT_CHUNK);
+        }
+      }
+    } catch (error) {
+      tracker.cause = `Simulation error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    const state = system.getState();
+    const success = state.status === MissionStatus.ORBIT_ACHIEVED;
+    if (!success && tracker.cause === null) {
+      tracker.cause = `Flight unfinished after ${MAX_MISSION_TIME} s`;
+    }
+    return {
+      run,
+      seed,
+      success,
+      cause: success ? null : tracker.cause,
+      missionTime: state.missionTime,
+      maxAltitude: tracker.maxAltitude,
+      fuelRemaining: state.fuel
+    };
+  }
+
+  private isRunning(state: IRocketState): boolean {
+    return (state.status === MissionStatus.COUNTDOWN || state.status === MissionStatus.IN_FLIGHT) &&
+           state.missionTime < MAX_MISSION_TIME;
+  }
+
+  private disperse(random: IRandomSource): IRocketConfig {
+    const { thrust, propellant, checkFailureRate } = this.dispersions;
+    return {
+      ...this.config,
+      stages: this.config.stages.map(stage => ({
+        ...stage,
+        thrust: stage.thrust * this.factor(random, thrust),
+        propellantMass: stage.propellantMass * this.factor(random, propellant)
+      })),
+      preLaunch: {
+        ...this.config.preLaunch,
+        checks: this.config.preLaunch.checks.map(check => {
+          const scale = this.factor(random, checkFailureRate);
+          return {
+            ...check,
+            transientFailureRate: Math.min(check.transientFailureRate * scale, 1),
+            hardwareFailureRate: Math.min(check.hardwareFailureRate * scale, 1)
+          };
+        })
+      }
+    };
+  }
+
+  // 1 + sigma% of a clamped standard normal draw
+  private factor(random: IRandomSource, sigma: number): number {
+    const clamped = Math.min(Math.max(gaussian(random), -DISPERSION_LIMIT), DISPERSION_LIMIT);
+    return Math.max(1 + clamped * sigma / 100, 0);
+  }
+
+  private summarize(results: IMonteCarloRun[]): IMonteCarloReport {
+    const launched = results.filter(result => result.missionTime > 0);
+    const successes = results.filter(result => result.success).length;
+
+    const counts = new Map<string, number>();
+    results.forEach(result => {
+      if (result.cause !== null) {
+        counts.set(result.cause, (counts.get(result.cause) ?? 0) + 1);
+      }
+    });
+    const failureCauses = [...counts.entries()]
+      .map(([cause, count]) => ({ cause, count, fraction: count / results.length }))
+      .sort((a, b) => b.count - a.count || a.cause.localeCompare(b.cause));
+
+    return {
+      rocket: this.config.name,
+      seed: this.seed,
+      dispersions: this.dispersions,
+      runs: results.length,
+      launched: launched.length,
+      successes,
+      successProbability: successes / results.length,
+      failureCauses,
+      statistics: {
+        maxAltitude: summarizeValues(launched.map(result => result.maxAltitude)),
+        fuelRemaining: summarizeValues(launched.map(result => result.fuelRemaining))
+      },
+      results
+    };
+  }
+}
+
+function summarizeValues(values: number[]): IPercentileSummary | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentiles: { [percentile: string]: number } = {};
+  PERCENTILES.forEach(percentile => {
+    percentiles[`p${percentile}`] = percentileOf(sorted, percentile);
+  });
+  return {
+    min: sorted[0],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    max: sorted[sorted.length - 1],
+    percentiles
+  };
+}
+
+// Linear interpolation between the closest ranks.
+function percentileOf(sorted: number[], percentile: number): number {
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+// ============================================================================
+// MONTE CARLO REPORTS
+// ============================================================================
+
+export function formatMonteCarloReport(report: IMonteCarloReport): string {
+  const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+  const { thrust, propellant, checkFailureRate } = report.dispersions;
+  const lines = [
+    `=== MONTE CARLO: ${report.rocket} ===`,
+    `Runs: ${report.runs} (seed ${report.seed}), launched: ${report.launched}`,
+    `Dispersions (1 sigma): thrust ${thrust}%, propellant ${propellant}%, ` +
+    `check failure rates ${checkFailureRate}%`,
+    `Success probability: ${percent(report.successProbability)} ` +
+    `(${report.successes}/${report.runs})`,
+    ''
+  ];
+
+  lines.push('Failure causes:');
+  if (report.failureCauses.length === 0) {
+    lines.push('  none');
+  }
+  const causeWidth = Math.max(...report.failureCauses.map(({ cause }) => cause.length), 0);
+  report.failureCauses.forEach(({ cause, count, fraction }) => {
+    lines.push(`  ${cause.padEnd(causeWidth)} ${String(count).padStart(6)}  ${percent(fraction).padStart(6)}`);
+  });
+  lines.push('');
+
+  const columns = ['min', ...PERCENTILES.map(percentile => `p${percentile}`), 'mean', 'max'];
+  lines.push(`${''.padEnd(20)}${columns.map(column => column.padStart(9)).join('')}`);
+  const rows: [string, IPercentileSummary | null][] = [
+    ['Max altitude (km)', report.statistics.maxAltitude],
+    ['Fuel remaining (%)', report.statistics.fuelRemaining]
+  ];
+  rows.forEach(([label, summary]) => {
+    if (!summary) {
+      lines.push(`${label.padEnd(20)}${'no launches'.padStart(9)}`);
+      return;
+    }
+    const values = [summary.min, ...PERCENTILES.map(p => summary.percentiles[`p${p}`]), summary.mean, summary.max];
+    lines.push(`${label.padEnd(20)}${values.map(value => value.toFixed(1).padStart(9)).join('')}`);
+  });
+  lines.push('='.repeat(Math.max(report.rocket.length + 18, 20)));
+
+  return lines.join('\n');
+}
+
+export function writeMonteCarloReport(report: IMonteCarloReport, filePath: string): void {
+  try {
+    fs.writeFileSync(filePath, JSON.stringify(report, null, 2) + '\n', 'utf8');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    throw new SimulatorException(`Cannot write Monte Carlo report ${filePath}: ${reason}`);
+  }
+}
@@ -0,0 +1,433 @@
+import * as fs from 'fs';
+import { RocketConfigLoader } from './config';
+import { InvalidSaveFileException, SimulatorException } from './exceptions';
+import { GuidanceProgramLoader } from './guidance';
+import { FlightRuleLoader, IFlightRuleSession } from './rules';
+import { CONDITION_FIELDS, IScheduledCommand, ScheduleStatus, ScheduleTrigger } from './scheduler';
+import { COMPARISON_OPERATORS, ComparisonOperator } from './script';
+import { ITelemetrySample } from './telemetry';
+import { AbortMode, AnomalyType, CheckOutcome, GuidanceMode, GuidanceSetting, IAnomaly, IChecksInProgress, ICommandRecord, IRocketState, ISensorReadings, ISimulationCheckpoint, MissionStatus } from './types';
+
+// ============================================================================
+// SAVE FILES (Session Persistence)
+// ============================================================================
+
+const SAVE_FORMAT = 'rocket-simulator-save';
+export const SAVE_FORMAT_VERSION = 1;
+
+export interface ISaveFile {
+  format: string;
+  version: number;
+  savedAt: string; // ISO 8601
+  checkpoint: ISimulationCheckpoint;
+  commands: ICommandRecord[];
+  telemetry: ITelemetrySample[];
+  schedule: IScheduledCommand[];
+  flightRules: IFlightRuleSession;
+}
+
+// What a session consists of, besides the file's own header.
+export type SessionData = Omit<ISaveFile, 'format' | 'version' | 'savedAt'>;
+
+type RawObject = { [key: string]: unknown };
+
+const MISSION_STATUSES = Object.values(MissionStatus) as string[];
+const ABORT_MODES = Object.values(AbortMode) as string[];
+const ANOMALY_TYPES = Object.values(AnomalyType) as string[];
+const SCHEDULE_STATUSES = Object.values(ScheduleStatus) as string[];
+const CHECK_OUTCOMES = Object.values(CheckOutcome) as string[];
+
+export class SaveFileManager {
+  static save(filePath: string, session: SessionData): void {
+    const saveFile: ISaveFile = {
+      format: SAVE_FORMAT,
+      version: SAVE_FORMAT_VERSION,
+      savedAt: new Date().toISOString(),
+      ...session
+    };
+
+    try {
+      fs.writeFileSync(filePath, JSON.stringify(saveFile, null, 2) + '\n', 'utf8');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      throw new SimulatorException(`Cannot write save file ${filePath}: ${reason}`);
+    }
+  }
+
+  static load(filePath: string): ISaveFile {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new SimulatorException(`Cannot read save file: ${filePath}`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(contents);
+    } catch (error) {
+      throw new InvalidSaveFileException(filePath, 'not valid JSON');
+    }
+
+    return new SaveFileManager(filePath).validate(raw);
+  }
+
+  private constructor(private filePath: string) {}
+
+  // The version is checked before anything else so that files from other
+  // releases fail with a clear message instead of a confusing field error.
+  private validate(raw: unknown): ISaveFile {
+    const root = this.requireObject(raw, '(root)');
+    if (root.format !== SAVE_FORMAT) {
+      throw new InvalidSaveFileException(this.filePath, 'not a rocket simulator save file');
+    }
+    if (root.version !== SAVE_FORMAT_VERSION) {
+      throw new InvalidSaveFileException(
+        this.filePath,
+        `format version ${String(root.version)} is not supported ` +
+        `(this simulator reads version ${SAVE_FORMAT_VERSION})`
+      );
+    }
+
+    const checkpoint = this.validateCheckpoint(root.checkpoint);
+    const commands = this.requireArray(root.commands, 'commands').map((entry, index) => {
+      const field = `commands[${index}]`;
+      const command = this.requireObject(entry, field);
+      const status = this.requireString(command, 'status', field);
+      if (!MISSION_STATUSES.includes(status)) {
+        throw new InvalidSaveFileException(this.filePath, `"${field}.status" is not a mission status: ${status}`);
+      }
+      return {
+        description: this.requireString(command, 'description', field),
+        missionTime: this.requireNumber(command, 'missionTime', field),
+        status: status as MissionStatus
+      };
+    });
+    const telemetry = this.requireArray(root.telemetry, 'telemetry').map((entry, index) =>
+      this.validateSample(entry, `telemetry[${index}]`)
+    );
+    const schedule = this.requireArray(root.schedule, 'schedule').map((entry, index) =>
+      this.validateScheduledCommand(entry, `schedule[${index}]`)
+    );
+    const flightRules = this.validateFlightRules(root.flightRules, 'flightRules');
+
+    return {
+      format: SAVE_FORMAT,
+      version: SAVE_FORMAT_VERSION,
+      savedAt: this.requireString(root, 'savedAt', ''),
+      checkpoint,
+      commands,
+      telemetry,
+      schedule,
+      flightRules
+    };
+  }
+
+  private validateCheckpoint(raw: unknown): ISimulationCheckpoint {
+    const checkpoint = this.requireObject(raw, 'checkpoint');
+    const config = RocketConfigLoader.validate(checkpoint.config);
+    const stageCount = config.stages.length;
+
+    const timeStep = this.requireNumber(checkpoint, 'timeStep', 'checkpoint');
+    if (timeStep <= 0) {
+      throw new InvalidSaveFileException(this.filePath, '"checkpoint.timeStep" must be greater than 0');
+    }
+
+    const random = this.requireObject(checkpoint.random, 'checkpoint.random');
+    return {
+      state: this.validateState(checkpoint.state, 'checkpoint.state', stageCount),
+      config,
+      timeStep,
+      random: {
+        seed: this.requireUint32(random, 'seed', 'checkpoint.random'),
+        state: this.requireUint32(random, 'state', 'checkpoint.random'),
+        sensorState: this.requireUint32(random, 'sensorState', 'checkpoint.random')
+      },
+      flightHistory: this.requireArray(checkpoint.flightHistory, 'checkpoint.flightHistory')
+        .map((state, index) => this.validateState(state, `checkpoint.flightHistory[${index}]`, stageCount)),
+      guidance: this.validateGuidance(checkpoint.guidance, 'checkpoint.guidance'),
+      anomalies: this.requireArray(checkpoint.anomalies, 'checkpoint.anomalies')
+        .map((anomaly, index) => this.validateAnomaly(anomaly, `checkpoint.anomalies[${index}]`, stageCount)),
+      checks: checkpoint.checks === null ? null : this.validateChecks(checkpoint.checks, 'checkpoint.checks')
+    };
+  }
+
+  private validateState(raw: unknown, field: string, stageCount: number): IRocketState {
+    const state = this.requireObject(raw, field);
+    const stage = this.requireNumber(state, 'stage', field);
+    if (!Number.isInteger(stage) || stage < 0 || stage > stageCount) {
+      throw new InvalidSaveFileException(
+        this.filePath, `"${field}.stage" must be between 0 and ${stageCount} (got ${stage})`
+      );
+    }
+
+    const status = this.requireString(state, 'status', field);
+    if (!MISSION_STATUSES.includes(status)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.status" is not a mission status: ${status}`);
+    }
+
+    const abortMode = state.abortMode;
+    if (abortMode !== null && !ABORT_MODES.includes(abortMode as string)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.abortMode" is not an abort mode`);
+    }
+
+    return {
+      stage,
+      fuel: this.requireNumber(state, 'fuel', field),
+      altitude: this.requireNumber(state, 'altitude', field),
+      speed: this.requireNumber(state, 'speed', field),
+      status: status as MissionStatus,
+      missionTime: this.requireNumber(state, 'missionTime', field),
+      velocity: this.requireNumber(state, 'velocity', field),
+      abortMode: abortMode as AbortMode | null,
+      horizontalVelocity: this.requireNumber(state, 'horizontalVelocity', field),
+      downrange: this.requireNumber(state, 'downrange', field),
+      pitch: this.requireNumber(state, 'pitch', field),
+      throttle: this.requireNumber(state, 'throttle', field)
+    };
+  }
+
+  private validateGuidance(raw: unknown, field: string): GuidanceSetting {
+    const guidance = this.requireObject(raw, field);
+    switch (guidance.mode) {
+      case GuidanceMode.GRAVITY_TURN:
+        return { mode: GuidanceMode.GRAVITY_TURN };
+      case GuidanceMode.MANUAL:
+        return { mode: GuidanceMode.MANUAL, pitch: this.requireNumber(guidance, 'pitch', field) };
+      case GuidanceMode.PROGRAM:
+        try {
+          return { mode: GuidanceMode.PROGRAM, program: GuidanceProgramLoader.validate(guidance.program, 'program') };
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'invalid program';
+          throw new InvalidSaveFileException(this.filePath, `"${field}.program": ${reason}`);
+        }
+      default:
+        throw new InvalidSaveFileException(this.filePath, `"${field}.mode" is not a guidance mode`);
+    }
+  }
+
+  private validateAnomaly(raw: unknown, field: string, stageCount: number): IAnomaly {
+    const anomaly = this.requireObject(raw, field);
+    const type = this.requireString(anomaly, 'type', field);
+    if (!ANOMALY_TYPES.includes(type)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.type" is not an anomaly: ${type}`);
+    }
+    const stage = this.requireNumber(anomaly, 'stage', field);
+    if (!Number.isInteger(stage) || stage < 1 || stage > stageCount) {
+      throw new InvalidSaveFileException(
+        this.filePath, `"${field}.stage" must be between 1 and ${stageCount} (got ${stage})`
+      );
+    }
+
+    let readings: ISensorReadings | null = null;
+    if (anomaly.readings !== null) {
+      const source = this.requireObject(anomaly.readings, `${field}.readings`);
+      const reading = (key: string) => this.requireNumber(source, key, `${field}.readings`);
+      readings = {
+        altitude: reading('altitude'),
+        speed: reading('speed'),
+        velocity: reading('velocity'),
+        horizontalVelocity: reading('horizontalVelocity'),
+        downrange: reading('downrange')
+      };
+    }
+
+    return {
+      type: type as AnomalyType,
+      stage,
+      injectedAt: this.requireNumber(anomaly, 'injectedAt', field),
+      readings
+    };
+  }
+
+  private validateChecks(raw: unknown, field: string): IChecksInProgress {
+    const checks = this.requireObject(raw, field);
+    const attempts = this.requireArray(checks.attempts, `${field}.attempts`).map((entry, index) => {
+      const attemptField = `${field}.attempts[${index}]`;
+      const attempt = this.requireObject(entry, attemptField);
+      return {
+        check: this.requireString(attempt, 'check', attemptField),
+        attempt: this.requireNumber(attempt, 'attempt', attemptField),
+        outcome: this.validateCheckOutcome(attempt, attemptField),
+        endsAt: this.requireNumber(attempt, 'endsAt', attemptField),
+        retryIn: attempt.retryIn === null ? null : this.requireNumber(attempt, 'retryIn', attemptField)
+      };
+    });
+
+    const played = this.requireNumber(checks, 'played', field);
+    if (!Number.isInteger(played) || played < 0 || played > attempts.length) {
+      throw new InvalidSaveFileException(
+        this.filePath, `"${field}.played" must be between 0 and ${attempts.length} (got ${played})`
+      );
+    }
+
+    return {
+      attempts,
+      played,
+      outcome: this.validateCheckOutcome(checks, field),
+      failedCheck: checks.failedCheck === null ? null : this.requireString(checks, 'failedCheck', field),
+      duration: this.requireNumber(checks, 'duration', field),
+      elapsed: this.requireNumber(checks, 'elapsed', field)
+    };
+  }
+
+  private validateCheckOutcome(source: RawObject, field: string): CheckOutcome {
+    const outcome = this.requireString(source, 'outcome', field);
+    if (!CHECK_OUTCOMES.includes(outcome)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.outcome" is not a check outcome: ${outcome}`);
+    }
+    return outcome as CheckOutcome;
+  }
+
+  private validateSample(raw: unknown, field: string): ITelemetrySample {
+    const sample = this.requireObject(raw, field);
+    const status = this.requireString(sample, 'status', field);
+    if (!MISSION_STATUSES.includes(status)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.status" is not a mission status: ${status}`);
+    }
+    return {
+      time: this.requireNumber(sample, 'time', field),
+      stage: this.requireNumber(sample, 'stage', field),
+      fuel: this.requireNumber(sample, 'fuel', field),
+      altitude: this.requireNumber(sample, 'altitude', field),
+      downrange: this.requireNumber(sample, 'downrange', field),
+      speed: this.requireNumber(sample, 'speed', field),
+      status: status as MissionStatus
+    };
+  }
+
+  private validateScheduledCommand(raw: unknown, field: string): IScheduledCommand {
+    const entry = this.requireObject(raw, field);
+    const id = this.requireNumber(entry, 'id', field);
+    if (!Number.isInteger(id) || id < 1) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.id" must be a positive whole number`);
+    }
+    const status = this.requireString(entry, 'status', field);
+    if (!SCHEDULE_STATUSES.includes(status)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.status" is not a schedule status: ${status}`);
+    }
+
+    return {
+      id,
+      trigger: this.validateTrigger(entry.trigger, `${field}.trigger`),
+      command: this.requireString(entry, 'command', field),
+      status: status as ScheduleStatus,
+      firedAt: entry.firedAt === null ? null : this.requireNumber(entry, 'firedAt', field),
+      failure: entry.failure === null ? null : this.requireString(entry, 'failure', field)
+    };
+  }
+
+  private validateTrigger(raw: unknown, field: string): ScheduleTrigger {
+    const trigger = this.requireObject(raw, field);
+    if (trigger.kind === 'time') {
+      return { kind: 'time', time: this.requireNumber(trigger, 'time', field) };
+    }
+    if (trigger.kind !== 'condition') {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.kind" must be time or condition`);
+    }
+
+    const conditionField = this.requireString(trigger, 'field', field);
+    if (!CONDITION_FIELDS.includes(conditionField)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.field" cannot be watched: ${conditionField}`);
+    }
+    const operator = this.requireString(trigger, 'operator', field);
+    if (!(COMPARISON_OPERATORS as string[]).includes(operator)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}.operator" is not a comparison: ${operator}`);
+    }
+    return {
+      kind: 'condition',
+      field: conditionField,
+      operator: operator as ComparisonOperator,
+      value: this.requireNumber(trigger, 'value', field)
+    };
+  }
+
+  // The rules themselves are in rules-file form and checked as a rules file.
+  private validateFlightRules(raw: unknown, field: string): IFlightRuleSession {
+    const session = this.requireObject(raw, field);
+    const entries = this.requireArray(session.rules, `${field}.rules`);
+    try {
+      FlightRuleLoader.validate({ rules: entries });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'invalid flight rules';
+      throw new InvalidSaveFileException(this.filePath, `"${field}": ${reason}`);
+    }
+
+    const rules = entries.map((entry, index) => {
+      const ruleField = `${field}.rules[${index}]`;
+      const rule = this.requireObject(entry, ruleField);
+      if (typeof rule.enabled !== 'boolean') {
+        throw new InvalidSaveFileException(this.filePath, `"${ruleField}.enabled" must be true or false`);
+      }
+      return {
+        name: this.requireString(rule, 'name', ruleField),
+        message: rule.message as string | undefined,
+        on: rule.on as string | undefined,
+        when: rule.when as string[],
+        level: (rule.level as string | undefined) ?? 'warn',
+        command: rule.command as string | undefined,
+        enabled: rule.enabled,
+        violations: this.requireNumber(rule, 'violations', ruleField),
+        lastViolatedAt: rule.lastViolatedAt === null ? null : this.requireNumber(rule, 'lastViolatedAt', ruleField)
+      };
+    });
+
+    const names = rules.map(rule => rule.name);
+    const violated = this.requireArray(session.violated, `${field}.violated`).map((name, index) => {
+      if (typeof name !== 'string' || !names.includes(name)) {
+        throw new InvalidSaveFileException(this.filePath, `"${field}.violated[${index}]" is not a rule name`);
+      }
+      return name;
+    });
+
+    return {
+      source: session.source === null ? null : this.requireString(session, 'source', field),
+      rules,
+      violated
+    };
+  }
+
+  private requireObject(value: unknown, field: string): RawObject {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}" must be an object`);
+    }
+    return value as RawObject;
+  }
+
+  private requireArray(value: unknown, field: string): unknown[] {
+    if (!Array.isArray(value)) {
+      throw new InvalidSaveFileException(this.filePath, `"${field}" must be a list`);
+    }
+    return value;
+  }
+
+  private requireString(source: RawObject, key: string, parent: string): string {
+    const value = source[key];
+    if (typeof value !== 'string') {
+      throw new InvalidSaveFileException(this.filePath, `"${this.fieldPath(parent, key)}" must be a string`);
+    }
+    return value;
+  }
+
+  private requireNumber(source: RawObject, key: string, parent: string): number {
+    const value = source[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new InvalidSaveFileException(this.filePath, `"${this.fieldPath(parent, key)}" must be a number`);
+    }
+    return value;
+  }
+
+  private requireUint32(source: RawObject, key: string, parent: string): number {
+    const value = this.requireNumber(source, key, parent);
+    if (!Number.isInteger(value) || value < 0 || value > 0xFFFFFFFF) {
+      throw new InvalidSaveFileException(
+        this.filePath, `"${this.fieldPath(parent, key)}" must be an integer between 0 and 4294967295`
+      );
+    }
+    return value;
+  }
+
+  private fieldPath(parent: string, key: string): string {
+    return parent === '' ? key : `${parent}.${key}`;
+  }
+}
@@ -0,0 +1,85 @@
+import { IOrbitalElements, TrajectoryType } from "./types";
+
+// ============================================================================
+// PHYSICS (Flight Model)
+// ============================================================================
+
+export const STANDARD_GRAVITY = 9.80665; // m/s^2
+export const EARTH_RADIUS = 6371000; // m
+export const GRAVITATIONAL_PARAMETER = STANDARD_GRAVITY * EARTH_RADIUS * EARTH_RADIUS; // m^3/s^2
+export const ATMOSPHERE_LIMIT = 100000; // m, an orbit dipping below this decays
+
+const SEA_LEVEL_AIR_DENSITY = 1.225; // kg/m^3
+const ATMOSPHERE_SCALE_HEIGHT = 8500; // m
+
+export function gravityAt(altitude: number): number {
+  const ratio = EARTH_RADIUS / (EARTH_RADIUS + Math.max(altitude, 0));
+  return STANDARD_GRAVITY * ratio * ratio;
+}
+
+// Exponential atmosphere model, good enough for ascent profiles.
+export function airDensityAt(altitude: number): number {
+  return SEA_LEVEL_AIR_DENSITY * Math.exp(-Math.max(altitude, 0) / ATMOSPHERE_SCALE_HEIGHT);
+}
+
+// Magnitude only; drag acts against the direction of travel.
+export function dragForce(
+  speed: number,
+  altitude: number,
+  dragCoefficient: number,
+  referenceArea: number
+): number {
+  return 0.5 * airDensityAt(altitude) * speed * speed * dragCoefficient * referenceArea;
+}
+
+export function circularVelocityAt(altitude: number): number {
+  return Math.sqrt(GRAVITATIONAL_PARAMETER / (EARTH_RADIUS + altitude));
+}
+
+// Two-body orbit through the current point, from the vis-viva equation and
+// the angular momentum of the horizontal velocity. Altitude in m, velocities
+// in m/s; the result is in km.
+export function orbitalElements(
+  altitude: number,
+  verticalVelocity: number,
+  horizontalVelocity: number
+): IOrbitalElements {
+  const radius = EARTH_RADIUS + altitude;
+  const speedSquared = verticalVelocity * verticalVelocity + horizontalVelocity * horizontalVelocity;
+  const specificEnergy = speedSquared / 2 - GRAVITATIONAL_PARAMETER / radius;
+  const angularMomentum = radius * Math.abs(horizontalVelocity);
+  const semiLatusRectum = angularMomentum * angularMomentum / GRAVITATIONAL_PARAMETER;
+  const eccentricity = Math.sqrt(Math.max(
+    1 + 2 * specificEnergy * angularMomentum * angularMomentum /
+        (GRAVITATIONAL_PARAMETER * GRAVITATIONAL_PARAMETER),
+    0
+  ));
+
+  // Bound orbits use the semi-major axis, which stays finite for a straight
+  // up-and-down path (eccentricity exactly 1) such as a vertical climb.
+  return {
+    apoapsis: specificEnergy < 0
+      ? (-GRAVITATIONAL_PARAMETER / (2 * specificEnergy) * (1 + eccentricity) - EARTH_RADIUS) / 1000
+      : Infinity,
+    periapsis: (semiLatusRectum / (1 + eccentricity) - EARTH_RADIUS) / 1000,
+    specificEnergy
+  };
+}
+
+export function classifyTrajectory(elements: IOrbitalElements): TrajectoryType {
+  if (elements.specificEnergy >= 0) {
+    return TrajectoryType.ESCAPE;
+  }
+  if (elements.periapsis * 1000 >= ATMOSPHERE_LIMIT) {
+    return TrajectoryType.ORBIT;
+  }
+  return elements.periapsis >= 0 ? TrajectoryType.REENTRY : TrajectoryType.SUBORBITAL;
+}
+
+export function massFlowRate(thrust: number, specificImpulse: number): number {
+  return thrust / (specificImpulse * STANDARD_GRAVITY);
+}
+
+export function metersPerSecondToKmh(velocity: number): number {
+  return velocity * 3.6;
+}
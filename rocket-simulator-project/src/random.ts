@@ -0,0 +1,51 @@
+import { SimulatorException } from "./exceptions";
+import { IRandomSource } from "./types";
+
+// ============================================================================
+// RANDOM SOURCE (Seeded PRNG)
+// ============================================================================
+
+// mulberry32: tiny, fast and good enough for simulation dice rolls. The same
+// seed always yields the same sequence, which makes sessions replayable.
+export class SeededRandom implements IRandomSource {
+  private readonly seed: number;
+  private current: number;
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    if (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF) {
+      throw new SimulatorException('Seed must be an integer between 0 and 4294967295');
+    }
+    this.seed = seed;
+    this.current = seed;
+  }
+
+  // Continues a sequence from a saved position rather than from the start.
+  static restore(seed: number, state: number): SeededRandom {
+    const random = new SeededRandom(seed);
+    if (!Number.isInteger(state) || state < 0 || state > 0xFFFFFFFF) {
+      throw new SimulatorException('Random state must be an integer between 0 and 4294967295');
+    }
+    random.current = state;
+    return random;
+  }
+
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  next(): number {
+    this.current = (this.current + 0x6D2B79F5) >>> 0;
+    let t = this.current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getState(): number {
+    return this.current;
+  }
+}
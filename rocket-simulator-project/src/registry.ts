@@ -0,0 +1,332 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { InvalidArgumentException, InvalidCommandException, InvalidStateException, SimulatorException } from './exceptions';
+
+// ============================================================================
+// COMMAND REGISTRY (Parsing, Help and Completion)
+// ============================================================================
+
+export enum ArgumentType {
+  NUMBER = 'number',
+  INTEGER = 'integer',
+  DURATION = 'duration',     // 90, 90s, 2m30s, 1h
+  COUNTDOWN = 'countdown',   // T-minus time: 20, T-20, T-1m
+  PERCENT = 'percent',       // 80 or 80%
+  ANGLE = 'angle',           // 20, 20deg or 20°
+  MULTIPLIER = 'multiplier', // 10 or 10x
+  MISSION_TIME = 'mission-time', // T+45, T-10, T+2m30s; a bare duration is T+
+  CHOICE = 'choice',
+  PATH = 'path',             // case preserved, completed from the file system
+  COMMAND = 'command'        // the rest of the line, e.g. for "at T+45 throttle 70"
+}
+
+export type ArgumentValue = number | string;
+export type CommandArguments = { [name: string]: ArgumentValue | undefined };
+
+export interface IArgumentSpec {
+  name: string;
+  type: ArgumentType;
+  optional?: boolean;
+  choices?: string[];  // CHOICE only
+  keywords?: string[]; // words accepted in place of a value, e.g. "auto"
+  min?: number;        // inclusive, in seconds, percent, degrees...
+  max?: number;
+  exclusiveMin?: boolean;
+}
+
+export interface ICommandDefinition {
+  name: string;
+  aliases?: string[];
+  args?: IArgumentSpec[];
+  help: string;
+  schedulable?: boolean; // may be queued with "at" and "when"
+  // True when these arguments make the command read or write files, which
+  // remote clients are not allowed to do.
+  accessesFiles?: (args: CommandArguments) => boolean;
+  // Returns why the command cannot run right now, or null when it can.
+  precondition?: () => string | null;
+  run(args: CommandArguments): void;
+}
+
+const UNIT_SUFFIXES: { [type: string]: RegExp } = {
+  [ArgumentType.PERCENT]: /%$/,
+  [ArgumentType.ANGLE]: /(deg|°)$/,
+  [ArgumentType.MULTIPLIER]: /x$/
+};
+
+const TYPE_DESCRIPTIONS: { [type: string]: string } = {
+  [ArgumentType.NUMBER]: 'a number',
+  [ArgumentType.INTEGER]: 'a whole number',
+  [ArgumentType.DURATION]: 'a duration such as 90, 90s or 2m30s',
+  [ArgumentType.COUNTDOWN]: 'a T-minus time such as T-20',
+  [ArgumentType.PERCENT]: 'a percentage such as 80%',
+  [ArgumentType.ANGLE]: 'an angle in degrees',
+  [ArgumentType.MULTIPLIER]: 'a multiplier such as 10x',
+  [ArgumentType.MISSION_TIME]: 'a mission time such as T+45 or T-10'
+};
+
+export interface IParsedCommand {
+  definition: ICommandDefinition;
+  args: CommandArguments;
+}
+
+const DURATION_PATTERN = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s?)?$/;
+const MAX_SUGGESTIONS = 3;
+const MAX_LISTED_CHOICES = 4; // longer lists show the argument name in usage
+
+// "2m30s" -> 150. A bare number is seconds; NaN when the text is not a duration.
+export function parseDuration(text: string): number {
+  const match = DURATION_PATTERN.exec(text.toLowerCase());
+  if (!match || text === '' || !(match[1] || match[2] || match[3])) {
+    return NaN;
+  }
+  const [hours, minutes, seconds] = match.slice(1).map(part => part ? Number(part) : 0);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// Edit distance, for "did you mean" suggestions.
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export class CommandRegistry {
+  private definitions: ICommandDefinition[] = [];
+  private byName = new Map<string, ICommandDefinition>();
+
+  register(definition: ICommandDefinition): void {
+    for (const name of [definition.name, ...(definition.aliases ?? [])]) {
+      if (this.byName.has(name)) {
+        throw new SimulatorException(`Command name already registered: ${name}`);
+      }
+      this.byName.set(name, definition);
+    }
+    this.definitions.push(definition);
+  }
+
+  find(name: string): ICommandDefinition | undefined {
+    return this.byName.get(name.toLowerCase());
+  }
+
+  getDefinitions(): ICommandDefinition[] {
+    return [...this.definitions];
+  }
+
+  getNames(): string[] {
+    return [...this.byName.keys()];
+  }
+
+  execute(input: string): void {
+    const { definition, args } = this.parse(input);
+    const reason = definition.precondition?.() ?? null;
+    if (reason !== null) {
+      throw new InvalidStateException(`Cannot ${definition.name}: ${reason}`);
+    }
+    definition.run(args);
+  }
+
+  // Checks the name and arguments without running anything.
+  parse(input: string): IParsedCommand {
+    const [name, ...tokens] = input.trim().split(/\s+/);
+    const definition = this.find(name);
+    if (!definition) {
+      throw new InvalidCommandException(input.trim(), this.suggest(name));
+    }
+    return { definition, args: this.parseArguments(definition, tokens) };
+  }
+
+  // Includes a command queued by "at" or "when".
+  accessesFiles(input: string): boolean {
+    const { definition, args } = this.parse(input);
+    if (definition.accessesFiles?.(args)) {
+      return true;
+    }
+    const nested = (definition.args ?? []).find(spec => spec.type === ArgumentType.COMMAND);
+    const queued = nested ? args[nested.name] : undefined;
+    return typeof queued === 'string' && this.accessesFiles(queued);
+  }
+
+  // Closest command names by edit distance, prefix matches first.
+  suggest(name: string): string[] {
+    const typed = name.toLowerCase();
+    const threshold = Math.max(2, Math.floor(typed.length / 3));
+    return this.getNames()
+      .map(candidate => ({
+        candidate,
+        distance: candidate.startsWith(typed) && typed.length > 0 ? 0 : levenshtein(typed, candidate)
+      }))
+      .filter(({ distance }) => distance <= threshold)
+      .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ candidate }) => candidate);
+  }
+
+  formatUsage(definition: ICommandDefinition): string {
+    const args = (definition.args ?? []).map(spec => {
+      if (spec.type === ArgumentType.CHOICE && spec.choices?.length === 1 && !spec.optional) {
+        return spec.choices[0]; // a fixed word such as "then"
+      }
+      const label = spec.type === ArgumentType.CHOICE && (spec.choices ?? []).length <= MAX_LISTED_CHOICES
+        ? (spec.choices ?? []).join('|')
+        : [spec.name, ...(spec.keywords ?? [])].join('|');
+      return spec.optional ? `[${label}]` : `<${label}>`;
+    });
+    return [definition.name, ...args].join(' ');
+  }
+
+  formatHelp(): string[] {
+    const usages = this.definitions.map(definition => this.formatUsage(definition));
+    const width = Math.max(...usages.map(usage => usage.length));
+    return this.definitions.map((definition, index) => {
+      const aliases = definition.aliases?.length ? ` (alias: ${definition.aliases.join(', ')})` : '';
+      return `${usages[index].padEnd(width)} - ${definition.help}${aliases}`;
+    });
+  }
+
+  // readline completer: command names first, then choices, keywords and
+  // file paths for the argument under the cursor.
+  complete(line: string): [string[], string] {
+    const tokens = line.trimStart().split(/\s+/);
+    const current = tokens[tokens.length - 1];
+    if (tokens.length === 1) {
+      const names = this.getNames().filter(name => name.startsWith(current.toLowerCase())).sort();
+      return [names.map(name => `${name} `), current];
+    }
+
+    const definition = this.find(tokens[0]);
+    const specs = definition?.args ?? [];
+    const spec = specs[tokens.length - 2];
+    const nested = specs.findIndex(candidate => candidate.type === ArgumentType.COMMAND);
+    if (nested >= 0 && tokens.length - 2 >= nested) {
+      // "at T+45 thr<tab>" completes the queued command
+      const [completions] = this.complete(tokens.slice(nested + 1).join(' '));
+      return [completions, current];
+    }
+    if (!spec) {
+      return [[], current];
+    }
+    if (spec.type === ArgumentType.PATH) {
+      return [this.completePath(current), current];
+    }
+    const words = [...(spec.choices ?? []), ...(spec.keywords ?? [])];
+    return [words.filter(word => word.startsWith(current.toLowerCase())), current];
+  }
+
+  private completePath(partial: string): string[] {
+    const directory = partial.endsWith('/') ? partial : path.dirname(partial);
+    const prefix = partial.endsWith('/') ? '' : path.basename(partial);
+    try {
+      return fs.readdirSync(directory === '' ? '.' : directory, { withFileTypes: true })
+        .filter(entry => entry.name.startsWith(prefix) && !entry.name.startsWith('.'))
+        .map(entry => {
+          const joined = directory === '.' && !partial.startsWith('./')
+            ? entry.name
+            : path.join(directory, entry.name);
+          return entry.isDirectory() ? `${joined}/` : joined;
+        });
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // An optional argument that does not fit is skipped, so "logs warn" works
+  // as well as "logs 50 warn".
+  private parseArguments(definition: ICommandDefinition, tokens: string[]): CommandArguments {
+    const specs = definition.args ?? [];
+    const args: CommandArguments = {};
+    let index = 0;
+
+    for (let s = 0; s < specs.length; s++) {
+      const spec = specs[s];
+      const token = tokens[index];
+      if (token === undefined) {
+        if (!spec.optional) {
+          throw new InvalidArgumentException(definition.name, spec.name, 'is missing', this.formatUsage(definition));
+        }
+        continue;
+      }
+      if (spec.type === ArgumentType.COMMAND) {
+        args[spec.name] = tokens.slice(index).join(' ');
+        index = tokens.length;
+        continue;
+      }
+
+      try {
+        args[spec.name] = this.parseValue(spec, token);
+        index++;
+      } catch (error) {
+        if (spec.optional && s < specs.length - 1) {
+          continue;
+        }
+        const problem = error instanceof Error ? error.message : 'is not valid';
+        throw new InvalidArgumentException(definition.name, spec.name, problem, this.formatUsage(definition));
+      }
+    }
+
+    if (index < tokens.length) {
+      throw new InvalidArgumentException(
+        definition.name, `"${tokens[index]}"`, 'is not expected here', this.formatUsage(definition)
+      );
+    }
+    return args;
+  }
+
+  private parseValue(spec: IArgumentSpec, token: string): ArgumentValue {
+    const lower = token.toLowerCase();
+    if (spec.keywords?.includes(lower)) {
+      return lower;
+    }
+
+    switch (spec.type) {
+      case ArgumentType.PATH:
+        return token;
+      case ArgumentType.CHOICE:
+        if (!spec.choices?.includes(lower)) {
+          throw new Error(`must be one of ${spec.choices?.join(', ')} (got "${token}")`);
+        }
+        return lower;
+      default:
+        return this.checkRange(spec, this.parseNumber(spec.type, lower, token));
+    }
+  }
+
+  private parseNumber(type: ArgumentType, lower: string, token: string): number {
+    let value: number;
+    if (type === ArgumentType.DURATION) {
+      value = parseDuration(lower);
+    } else if (type === ArgumentType.COUNTDOWN) {
+      value = parseDuration(lower.replace(/^t-/, ''));
+    } else if (type === ArgumentType.MISSION_TIME) {
+      const sign = lower.startsWith('t-') ? -1 : 1;
+      value = sign * parseDuration(lower.replace(/^t[+-]/, ''));
+    } else {
+      const suffix = UNIT_SUFFIXES[type];
+      value = lower.trim() === '' ? NaN : Number(suffix ? lower.replace(suffix, '') : lower);
+    }
+
+    if (!Number.isFinite(value) || (type === ArgumentType.INTEGER && !Number.isInteger(value))) {
+      throw new Error(`must be ${TYPE_DESCRIPTIONS[type]} (got "${token}")`);
+    }
+    return value;
+  }
+
+  private checkRange(spec: IArgumentSpec, value: number): number {
+    const tooLow = spec.min !== undefined && (spec.exclusiveMin ? value <= spec.min : value < spec.min);
+    const tooHigh = spec.max !== undefined && value > spec.max;
+    if (tooLow || tooHigh) {
+      const range = spec.max === undefined ? (spec.exclusiveMin ? `greater than ${spec.min}` : `at least ${spec.min}`)
+        : spec.min === undefined ? `at most ${spec.max}`
+        : `between ${spec.min} and ${spec.max}`;
+      throw new Error(`must be ${range} (got ${value})`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,421 @@
+import * as fs from 'fs';
+import { CommandInvoker } from './commands';
+import { SimulatorException } from './exceptions';
+import { formatMissionTime } from './format';
+import { IRocketObserver, RocketSystem } from './rocketSystem';
+import { BEFORE_COUNTDOWN } from './scheduler';
+import { ITelemetrySample, TelemetryRecorder } from './telemetry';
+import { AbortMode, ICommandRecord, ILogEntry, ILogSink, IRocketState, LogLevel, MissionStatus, RocketEvent, RocketEventType } from './types';
+
+// ============================================================================
+// MISSION REPORT (Post-flight Debrief)
+// ============================================================================
+
+export type ReportFormat = 'md' | 'html' | 'json';
+export const REPORT_FORMATS: ReportFormat[] = ['md', 'html', 'json'];
+
+export interface ITimelineEntry {
+  missionTime: number;
+  event: RocketEventType;
+  description: string;
+}
+
+export interface IStageReport {
+  stage: number;
+  name: string;
+  ignition: number;       // mission time
+  cutoff: number | null;  // mission time, null while still burning
+  burnDuration: number;   // s
+  propellantUsed: number; // % of the stage's load, leaks included
+  propellantUsedMass: number; // kg
+}
+
+export interface IReportedWarning {
+  missionTime: number | null;
+  level: LogLevel;
+  message: string;
+}
+
+export interface IPeak {
+  value: number;
+  missionTime: number;
+}
+
+export interface IMissionReport {
+  rocket: string;
+  seed: number;
+  generatedAt: string; // ISO 8601
+  outcome: MissionStatus;
+  missionOver: boolean;
+  reason: string | null; // why the mission failed or was aborted
+  abortMode: AbortMode | null;
+  missionTime: number;   // when the mission ended, or now if it has not
+  orbit: { apoapsis: number; periapsis: number } | null; // km
+  maxAltitude: IPeak | null; // km
+  maxSpeed: IPeak | null;    // km/h
+  stages: IStageReport[];
+  timeline: ITimelineEntry[];
+  commands: ICommandRecord[];
+  warnings: IReportedWarning[]; // warnings and errors
+}
+
+const FINAL_STATUSES = [MissionStatus.ORBIT_ACHIEVED, MissionStatus.MISSION_FAILED, MissionStatus.ABORTED];
+
+interface IRecordedEvent {
+  event: RocketEvent;
+  status: MissionStatus; // once the event happened
+  position: number;      // journal position, see IRocketObserver.onRestore
+}
+
+interface IRecordedWarning {
+  warning: IReportedWarning;
+  position: number;
+}
+
+// Entries are collected in the order they happened, which after a rewind is
+// not flight order. Mission time stands at T+0 until the countdown starts,
+// so entries from before it stay first in the order they were recorded; the
+// rest go by mission time, then by recorded order.
+function inFlightOrder<T>(entries: T[], stamp: (entry: T) => { missionTime: number; status: MissionStatus }): T[] {
+  return entries
+    .map((entry, sequence) => {
+      const { missionTime, status } = stamp(entry);
+      return { entry, sequence, missionTime, early: BEFORE_COUNTDOWN.includes(status) };
+    })
+    .sort((a, b) =>
+      Number(b.early) - Number(a.early) ||
+      (a.early ? 0 : a.missionTime - b.missionTime) ||
+      a.sequence - b.sequence
+    )
+    .map(({ entry }) => entry);
+}
+
+export function describeEvent(event: RocketEvent): string {
+  switch (event.type) {
+    case RocketEventType.CHECKS_COMPLETED:
+      return `Pre-launch checks: ${event.outcome}${event.failedCheck ? ` (${event.failedCheck})` : ''}`;
+    case RocketEventType.COUNTDOWN_MILESTONE:
+      return event.milestone.name;
+    case RocketEventType.LAUNCHED:
+      return 'Liftoff';
+    case RocketEventType.STAGE_SEPARATED:
+      return `Stage ${event.separatedStage} separated at ${event.altitude.toFixed(1)} km, ` +
+             `stage ${event.nextStage} ignition`;
+    case RocketEventType.ORBIT_ACHIEVED:
+      return `Orbit achieved: ${event.apoapsis.toFixed(1)} x ${event.periapsis.toFixed(1)} km` +
+             (event.abortToOrbit ? ' (abort to orbit)' : '');
+    case RocketEventType.MISSION_FAILED:
+      return `Mission failed: ${event.reason}`;
+    case RocketEventType.ABORTED:
+      return `Abort: ${event.mode}`;
+    case RocketEventType.ANOMALY_INJECTED:
+      return `Anomaly: ${event.anomaly} on stage ${event.stage}`;
+    case RocketEventType.ANOMALY_CLEARED:
+      return `Anomaly cleared: ${event.anomaly} on stage ${event.stage} (${event.reason})`;
+  }
+}
+
+// Follows the true flight and collects the warnings logged along the way.
+// It forgets whatever an undo or rewind took back, by journal position. The
+// timeline and warnings are not part of saved sessions, so after a load
+// they start from the loaded point.
+export class MissionReporter implements IRocketObserver, ILogSink {
+  private events: IRecordedEvent[] = [];
+  private warnings: IRecordedWarning[] = [];
+  private missionEnded = false;
+
+  constructor(
+    private rocketSystem: RocketSystem,
+    private recorder: TelemetryRecorder,
+    private invoker: CommandInvoker
+  ) {}
+
+  onRestore(position: number | null): void {
+    const kept = (entry: { position: number }) => position !== null && entry.position <= position;
+    this.events = this.events.filter(kept);
+    this.warnings = this.warnings.filter(kept);
+  }
+
+  // Abort to orbit carries on flying, so only the other aborts end the mission.
+  onEvent(event: RocketEvent, state: IRocketState): void {
+    this.events.push({ event, status: state.status, position: this.rocketSystem.getJournalPosition() });
+    if (event.type === RocketEventType.ORBIT_ACHIEVED ||
+        event.type === RocketEventType.MISSION_FAILED ||
+        (event.type === RocketEventType.ABORTED && event.mode !== AbortMode.ABORT_TO_ORBIT)) {
+      this.missionEnded = true;
+    }
+  }
+
+  write(entry: ILogEntry): void {
+    if (entry.level === LogLevel.WARN || entry.level === LogLevel.ERROR) {
+      this.warnings.push({
+        warning: {
+          missionTime: entry.fields.missionTime ?? null,
+          level: entry.level,
+          message: entry.message
+        },
+        position: this.rocketSystem.getJournalPosition()
+      });
+    }
+  }
+
+  // True once after the mission has ended, so the report is printed once.
+  takeMissionEnded(): boolean {
+    const ended = this.missionEnded;
+    this.missionEnded = false;
+    return ended;
+  }
+
+  build(): IMissionReport {
+    const state = this.rocketSystem.getState();
+    const missionOver = FINAL_STATUSES.includes(state.status);
+    const failure = this.lastEvent(RocketEventType.MISSION_FAILED);
+    const orbit = state.status === MissionStatus.ORBIT_ACHIEVED
+      ? this.lastEvent(RocketEventType.ORBIT_ACHIEVED)
+      : undefined;
+    const samples = this.recorder.getSamples();
+    const peak = (value: (sample: ITelemetrySample) => number): IPeak | null =>
+      samples.reduce<IPeak | null>((best, sample) =>
+        best === null || value(sample) > best.value ? { value: value(sample), missionTime: sample.time } : best,
+      null);
+
+    return {
+      rocket: this.rocketSystem.getConfig().name,
+      seed: this.rocketSystem.getRandomSource().getSeed(),
+      generatedAt: new Date().toISOString(),
+      outcome: state.status,
+      missionOver,
+      reason: state.status === MissionStatus.MISSION_FAILED && failure ? failure.reason
+        : state.status === MissionStatus.ABORTED ? state.abortMode
+        : null,
+      abortMode: state.abortMode,
+      missionTime: state.missionTime,
+      orbit: orbit ? { apoapsis: orbit.apoapsis, periapsis: orbit.periapsis } : null,
+      maxAltitude: peak(sample => sample.altitude),
+      maxSpeed: peak(sample => sample.speed),
+      stages: this.buildStages(state, missionOver),
+      timeline: inFlightOrder(this.events, ({ event, status }) => ({ missionTime: event.missionTime, status }))
+        .map(({ event }) => ({
+          missionTime: event.missionTime,
+          event: event.type,
+          description: describeEvent(event)
+        })),
+      commands: inFlightOrder(this.invoker.getHistoryRecords(), command => command),
+      warnings: this.warnings.map(({ warning }) => ({ ...warning }))
+    };
+  }
+
+  // Each stage burns from liftoff or the separation below it until its own
+  // separation; the last one until the mission ended, if it has.
+  private buildStages(state: IRocketState, missionOver: boolean): IStageReport[] {
+    if (!this.lastEvent(RocketEventType.LAUNCHED)) {
+      return [];
+    }
+    const stages = this.rocketSystem.getConfig().stages;
+    const separations = this.getEvents().filter(
+      (event): event is Extract<RocketEvent, { type: RocketEventType.STAGE_SEPARATED }> =>
+        event.type === RocketEventType.STAGE_SEPARATED
+    );
+
+    const reports: IStageReport[] = [];
+    let ignition = 0;
+    for (let stage = 1; stage <= Math.max(state.stage, 1); stage++) {
+      const separation = separations.find(event => event.separatedStage === stage);
+      const cutoff = separation ? separation.missionTime : missionOver ? state.missionTime : null;
+      const remaining = separation ? separation.separatedFuel : state.fuel;
+      const propellantUsed = 100 - remaining;
+      reports.push({
+        stage,
+        name: stages[stage - 1].name,
+        ignition,
+        cutoff,
+        burnDuration: (cutoff ?? state.missionTime) - ignition,
+        propellantUsed,
+        propellantUsedMass: propellantUsed / 100 * stages[stage - 1].propellantMass
+      });
+      ignition = cutoff ?? ignition;
+    }
+    return reports;
+  }
+
+  private lastEvent<T extends RocketEventType>(type: T): Extract<RocketEvent, { type: T }> | undefined {
+    const matching = this.getEvents().filter(event => event.type === type);
+    return matching[matching.length - 1] as Extract<RocketEvent, { type: T }> | undefined;
+  }
+
+  private getEvents(): RocketEvent[] {
+    return this.events.map(({ event }) => event);
+  }
+}
+
+// ============================================================================
+// MISSION REPORT RENDERING (Console, Markdown, HTML, JSON)
+// ============================================================================
+
+interface IReportTable {
+  title: string;
+  columns: string[];
+  rows: string[][];
+  empty: string; // shown instead of an empty table
+}
+
+function formatTime(missionTime: number | null): string {
+  return missionTime === null ? '-' : formatMissionTime(missionTime);
+}
+
+function summarize(report: IMissionReport): [string, string][] {
+  const outcome = report.missionOver
+    ? `${report.outcome} at ${formatMissionTime(report.missionTime)}`
+    : `${report.outcome} (mission still in progress at ${formatMissionTime(report.missionTime)})`;
+  const peak = (value: IPeak | null, unit: string, digits: number) => value === null ? 'n/a'
+    : `${value.value.toFixed(digits)} ${unit} at ${formatMissionTime(value.missionTime)}`;
+
+  const lines: [string, string][] = [
+    ['Rocket', report.rocket],
+    ['Seed', String(report.seed)],
+    ['Outcome', outcome]
+  ];
+  if (report.reason) {
+    lines.push(['Reason', report.reason]);
+  }
+  if (report.abortMode && report.abortMode !== report.reason) {
+    lines.push(['Abort mode', report.abortMode]);
+  }
+  if (report.orbit) {
+    lines.push(['Orbit', `${report.orbit.apoapsis.toFixed(1)} x ${report.orbit.periapsis.toFixed(1)} km`]);
+  }
+  lines.push(['Max altitude', peak(report.maxAltitude, 'km', 1)]);
+  lines.push(['Max speed', peak(report.maxSpeed, 'km/h', 0)]);
+  lines.push(['Generated', report.generatedAt]);
+  return lines;
+}
+
+function tabulate(report: IMissionReport): IReportTable[] {
+  return [
+    {
+      title: 'Stages',
+      columns: ['Stage', 'Ignition', 'Cutoff', 'Burn', 'Propellant used'],
+      rows: report.stages.map(stage => [
+        stage.name,
+        formatMissionTime(stage.ignition),
+        stage.cutoff === null ? 'burning' : formatMissionTime(stage.cutoff),
+        `${stage.burnDuration.toFixed(1)} s`,
+        `${stage.propellantUsed.toFixed(1)}% (${Math.round(stage.propellantUsedMass)} kg)`
+      ]),
+      empty: 'No stage has fired.'
+    },
+    {
+      title: 'Timeline',
+      columns: ['Time', 'Event'],
+      rows: report.timeline.map(entry => [formatMissionTime(entry.missionTime), entry.description]),
+      empty: 'No events.'
+    },
+    {
+      title: 'Commands',
+      columns: ['Time', 'Command'],
+      rows: report.commands.map(command => [formatMissionTime(command.missionTime), command.description]),
+      empty: 'No commands issued.'
+    },
+    {
+      title: 'Warnings',
+      columns: ['Time', 'Level', 'Message'],
+      rows: report.warnings.map(warning => [formatTime(warning.missionTime), warning.level, warning.message]),
+      empty: 'No warnings.'
+    }
+  ];
+}
+
+export function formatMissionReport(report: IMissionReport): string {
+  const lines = [`=== MISSION REPORT: ${report.rocket} ===`];
+  const labelWidth = Math.max(...summarize(report).map(([label]) => label.length));
+  summarize(report).forEach(([label, value]) => lines.push(`${`${label}:`.padEnd(labelWidth + 1)} ${value}`));
+
+  tabulate(report).forEach(table => {
+    lines.push('', `${table.title}:`);
+    if (table.rows.length === 0) {
+      lines.push(`  ${table.empty}`);
+      return;
+    }
+    const widths = table.columns.map((column, index) =>
+      Math.max(column.length, ...table.rows.map(row => row[index].length))
+    );
+    const formatRow = (row: string[]) => `  ${row.map((cell, index) =>
+      index === row.length - 1 ? cell : cell.padEnd(widths[index])).join('  ')}`;
+    lines.push(formatRow(table.columns));
+    table.rows.forEach(row => lines.push(formatRow(row)));
+  });
+  lines.push('=====================');
+  return lines.join('\n');
+}
+
+export function formatMissionReportMarkdown(report: IMissionReport): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|');
+  const lines = [`# Mission report: ${report.rocket}`, ''];
+  summarize(report).forEach(([label, value]) => lines.push(`- **${label}:** ${value}`));
+
+  tabulate(report).forEach(table => {
+    lines.push('', `## ${table.title}`, '');
+    if (table.rows.length === 0) {
+      lines.push(`_${table.empty}_`);
+      return;
+    }
+    lines.push(`| ${table.columns.join(' | ')} |`);
+    lines.push(`|${table.columns.map(() => ' --- |').join('')}`);
+    table.rows.forEach(row => lines.push(`| ${row.map(cell).join(' | ')} |`));
+  });
+  return lines.join('\n') + '\n';
+}
+
+export function formatMissionReportHtml(report: IMissionReport): string {
+  const escape = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const title = `Mission report: ${escape(report.rocket)}`;
+  const lines = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    '<style>',
+    'body { font-family: sans-serif; margin: 2em; }',
+    'table { border-collapse: collapse; margin-bottom: 1.5em; }',
+    'th, td { border: 1px solid #ccc; padding: 0.25em 0.75em; text-align: left; }',
+    'th { background: #f0f0f0; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    '<dl>'
+  ];
+  summarize(report).forEach(([label, value]) => lines.push(`<dt>${escape(label)}</dt><dd>${escape(value)}</dd>`));
+  lines.push('</dl>');
+
+  tabulate(report).forEach(table => {
+    lines.push(`<h2>${escape(table.title)}</h2>`);
+    if (table.rows.length === 0) {
+      lines.push(`<p><em>${escape(table.empty)}</em></p>`);
+      return;
+    }
+    lines.push('<table>');
+    lines.push(`<tr>${table.columns.map(column => `<th>${escape(column)}</th>`).join('')}</tr>`);
+    table.rows.forEach(row => lines.push(`<tr>${row.map(text => `<td>${escape(text)}</td>`).join('')}</tr>`));
+    lines.push('</table>');
+  });
+  lines.push('</body>', '</html>');
+  return lines.join('\n') + '\n';
+}
+
+export function writeMissionReport(report: IMissionReport, format: ReportFormat, filePath: string): void {
+  const contents = format === 'md' ? formatMissionReportMarkdown(report)
+    : format === 'html' ? formatMissionReportHtml(report)
+    : JSON.stringify(report, null, 2) + '\n';
+  try {
+    fs.writeFileSync(filePath, contents, 'utf8');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    throw new SimulatorException(`Cannot write mission report ${filePath}: ${reason}`);
+  }
+}
@@ -1,10 +1,28 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as readline from 'readline';
-import {ILogger, IRocketState, ICommand, IStageStrategy, MissionStatus} from './types'
-import { ConsoleLogger } from './logger';
-import { InvalidCommandException, InvalidStateException, SimulatorException } from './exceptions';
-import { StageFactory } from './stages';
+import {AnomalyType, ILogger, IRocketState, ICommand, IStageStrategy, ILogSink, LogLevel, MissionStatus, StateFeed} from './types'
+import { ConsoleLogger, ConsoleSink, JsonLinesSink, RotatingFileSink, formatLogEntry, parseLogLevel } from './logger';
+import { InvalidArgumentException, InvalidStateException, SimulatorException } from './exceptions';
 import { IRocketObserver, RocketSystem } from './rocketSystem';
-import { CommandInvoker, FastForwardCommand, LaunchCommand, StartChecksCommand } from './commands';
+import { AbortCommand, CommandInvoker, ExportTelemetryCommand, FastForwardCommand, HoldCountdownCommand, InjectAnomalyCommand, LaunchCommand, LoadProgramCommand, LoadRocketCommand, PitchCommand, ISessionParts, RecycleCountdownCommand, ResumeCountdownCommand, RewindCommand, SaveSessionCommand, LoadSessionCommand, SetSeedCommand, SetTimeStepCommand, StartChecksCommand, ThrottleCommand } from './commands';
+import { ANOMALY_DESCRIPTIONS } from './anomalies';
+import { RealTimeClock } from './clock';
+import { DEFAULT_ROCKET_CONFIG, RocketConfigLoader } from './config';
+import { DashboardDisplay } from './dashboard';
+import { formatMissionTime } from './format';
+import { orbitalElements } from './physics';
+import { DEFAULT_DISPERSIONS, IDispersions, MonteCarloRunner, formatMonteCarloReport, writeMonteCarloReport } from './montecarlo';
+import { SeededRandom } from './random';
+import { ArgumentType, CommandRegistry } from './registry';
+import { MissionReporter, REPORT_FORMATS, ReportFormat, formatMissionReport, writeMissionReport } from './report';
+import { FlightRuleMonitor, formatRule } from './rules';
+import { SENSOR_FIELDS, SENSOR_UNITS } from './sensors';
+import { CommandScheduler, CONDITION_FIELDS, ScheduleStatus, formatTrigger } from './scheduler';
+import { COMPARISON_OPERATORS, ComparisonOperator, ScriptRunner } from './script';
+import { IServerTarget, SimulatorServer } from './server';
+import { TelemetryRecorder } from './telemetry';
 
 
 
@@ -20,8 +38,11 @@ class ConsoleDisplay implements IRocketObserver {
   }
 
   onStateUpdate(state: IRocketState): void {
-    if (state.status === MissionStatus.IN_FLIGHT) {
-      const output = `Stage: ${state.stage}, Fuel: ${state.fuel.toFixed(1)}%, ` +
+    if (state.status === MissionStatus.COUNTDOWN) {
+      this.logger.info(formatMissionTime(state.missionTime));
+    } else if (state.status === MissionStatus.IN_FLIGHT) {
+      const output = `${formatMissionTime(state.missionTime)}, ` +
+                    `Stage: ${state.stage}, Fuel: ${state.fuel.toFixed(1)}%, ` +
                     `Altitude: ${state.altitude.toFixed(1)} km, ` +
                     `Speed: ${state.speed.toFixed(1)} km/h`;
       this.logger.info(output);
@@ -31,79 +52,710 @@ class ConsoleDisplay implements IRocketObserver {
 
 
 
-class RocketLaunchSimulator {
+interface ISimulatorOptions {
+  seed?: number;
+  script?: string;
+  realTime?: boolean; // only interactive sessions have an event loop to drive it
+  ui?: 'log' | 'dashboard';
+  logLevel?: LogLevel;
+  logFile?: string; // rotating plain-text log
+  logJson?: string; // rotating JSON-lines log
+  serve?: number; // port of the HTTP/WebSocket control server
+  host?: string;
+  allowedOrigins?: string[]; // web pages that may use the control server
+  rules?: string; // flight rules file
+}
+
+class RocketLaunchSimulator implements IServerTarget {
   private rocketSystem: RocketSystem;
   private commandInvoker: CommandInvoker;
-  private logger: ILogger;
-  private display: ConsoleDisplay;
+  private logger: ConsoleLogger;
+  private display: IRocketObserver;
+  private dashboard: DashboardDisplay | null = null;
+  private telemetryRecorder: TelemetryRecorder;
+  private reporter: MissionReporter;
+  private clock: RealTimeClock | null = null;
+  private commands: CommandRegistry;
+  private scheduler: CommandScheduler;
+  private flightRules: FlightRuleMonitor;
 
-  constructor() {
+  constructor(options: ISimulatorOptions = {}) {
     this.logger = ConsoleLogger.getInstance();
-    this.rocketSystem = new RocketSystem(this.logger);
-    this.commandInvoker = new CommandInvoker(this.logger);
-    this.display = new ConsoleDisplay(this.logger);
+    this.rocketSystem = new RocketSystem(
+      this.logger,
+      DEFAULT_ROCKET_CONFIG,
+      new SeededRandom(options.seed)
+    );
+    this.commandInvoker = new CommandInvoker(this.logger, () => this.rocketSystem.getState());
+    if (options.ui === 'dashboard') {
+      this.dashboard = new DashboardDisplay(this.rocketSystem, this.logger);
+      this.display = this.dashboard;
+    } else {
+      this.display = new ConsoleDisplay(this.logger);
+    }
+    this.configureLogging(options);
+    this.telemetryRecorder = new TelemetryRecorder();
+    this.reporter = new MissionReporter(this.rocketSystem, this.telemetryRecorder, this.commandInvoker);
     
     this.rocketSystem.addObserver(this.display);
+    // Exports, reports and saved sessions keep the truth, not what the sensors said
+    this.rocketSystem.addObserver(this.telemetryRecorder, undefined, StateFeed.TRUTH);
+    this.rocketSystem.addObserver(this.reporter, undefined, StateFeed.TRUTH);
+    this.logger.addSink(this.reporter);
+
+    if (options.realTime) {
+      this.clock = new RealTimeClock(seconds => this.onClockTick(seconds));
+    }
+    this.commands = this.registerCommands();
+    this.scheduler = new CommandScheduler(this.commands, this.logger);
+    this.rocketSystem.setScheduler(this.scheduler);
+    this.flightRules = new FlightRuleMonitor(this.commands, this.logger);
+    this.rocketSystem.addObserver(this.flightRules);
+    if (options.rules) {
+      this.flightRules.load(options.rules);
+    }
+  }
+
+  getState(): IRocketState {
+    return this.rocketSystem.getState();
   }
 
-  processInput(input: string): void {
+  getTelemetry(): IRocketState {
+    return this.rocketSystem.getTelemetry();
+  }
+
+  getReport(): string {
+    return formatMissionReport(this.reporter.build());
+  }
+
+  addObserver(observer: IRocketObserver): void {
+    this.rocketSystem.addObserver(observer);
+  }
+
+  refreshDisplay(): void {
+    this.dashboard?.render();
+  }
+
+  closeDisplay(): void {
+    this.dashboard?.dispose();
+  }
+
+  // Returns false when the input could not be carried out.
+  processInput(input: string): boolean {
     try {
-      const trimmedInput = input.trim().toLowerCase();
-      
-      if (trimmedInput === 'start_checks') {
-        const command = new StartChecksCommand(this.rocketSystem, this.logger);
-        this.commandInvoker.executeCommand(command);
-      } else if (trimmedInput === 'launch') {
-        const command = new LaunchCommand(this.rocketSystem, this.logger);
-        this.commandInvoker.executeCommand(command);
-      } else if (trimmedInput.startsWith('fast_forward')) {
-        const parts = trimmedInput.split(' ');
-        if (parts.length !== 2) {
-          throw new InvalidCommandException(input);
-        }
-        
-        const seconds = parseInt(parts[1], 10);
-        if (isNaN(seconds) || seconds <= 0) {
-          throw new SimulatorException('Fast forward value must be a positive number');
-        }
-        
-        const command = new FastForwardCommand(this.rocketSystem, this.logger, seconds);
-        this.commandInvoker.executeCommand(command);
-      } else if (trimmedInput === 'status') {
-        this.displayStatus();
-      } else if (trimmedInput === 'help') {
-        this.displayHelp();
-      } else {
-        throw new InvalidCommandException(input);
-      }
+      this.commands.execute(input);
+      return true;
     } catch (error) {
       if (error instanceof SimulatorException) {
         this.logger.error(error.message);
       } else {
         this.logger.error('An unexpected error occurred');
       }
+      return false;
+    } finally {
+      this.printReportIfMissionEnded();
     }
   }
 
+  complete(line: string): [string[], string] {
+    return this.commands.complete(line);
+  }
+
+  // Input that does not parse touches nothing; processInput reports it.
+  accessesFiles(input: string): boolean {
+    try {
+      return this.commands.accessesFiles(input);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private registerCommands(): CommandRegistry {
+    const registry = new CommandRegistry();
+    const execute = (command: ICommand) => this.commandInvoker.executeCommand(command);
+    const needsClock = () => this.clock ? null : 'real-time mode is only available in interactive sessions';
+
+    registry.register({
+      name: 'start_checks',
+      aliases: ['checks'],
+      help: 'Initiate pre-launch system checks, which take simulated time (also retries after a hold)',
+      precondition: this.whenStatus('checks already passed or the mission is over',
+        MissionStatus.PRE_LAUNCH, MissionStatus.HOLD),
+      run: () => execute(new StartChecksCommand(this.rocketSystem, this.logger))
+    });
+    registry.register({
+      name: 'launch',
+      help: 'Start the launch countdown (after checks)',
+      precondition: this.whenStatus('pre-launch checks have not passed', MissionStatus.READY_TO_LAUNCH),
+      run: () => execute(new LaunchCommand(this.rocketSystem, this.logger))
+    });
+    registry.register({
+      name: 'hold',
+      help: 'Hold the countdown',
+      schedulable: true,
+      precondition: this.whenStatus('the countdown is not running', MissionStatus.COUNTDOWN),
+      run: () => execute(new HoldCountdownCommand(this.rocketSystem, this.logger))
+    });
+    registry.register({
+      name: 'resume',
+      help: 'Resume a paused clock, otherwise a held countdown',
+      run: () => {
+        // A paused clock takes priority; a second `resume` restarts the count
+        if (this.clock && this.clock.isPaused()) {
+          this.clock.resume();
+          this.logger.info('Real-time clock resumed');
+        } else {
+          execute(new ResumeCountdownCommand(this.rocketSystem, this.logger));
+        }
+      }
+    });
+    registry.register({
+      name: 'recycle',
+      args: [{ name: 'T-time', type: ArgumentType.COUNTDOWN, min: 0, exclusiveMin: true }],
+      help: 'Recycle the countdown back to T-time and hold',
+      precondition: this.whenStatus('the countdown is not running',
+        MissionStatus.COUNTDOWN, MissionStatus.COUNTDOWN_HOLD),
+      run: args => execute(
+        new RecycleCountdownCommand(this.rocketSystem, this.logger, args['T-time'] as number)
+      )
+    });
+    registry.register({
+      name: 'abort',
+      help: 'Abort (pad abort, launch escape or abort-to-orbit)',
+      schedulable: true,
+      run: () => execute(new AbortCommand(this.rocketSystem, this.logger))
+    });
+    registry.register({
+      name: 'fast_forward',
+      aliases: ['ff'],
+      args: [{ name: 'duration', type: ArgumentType.DURATION, min: 0, exclusiveMin: true }],
+      help: 'Advance the simulation by a duration (e.g. 90, 2m30s)',
+      precondition: this.whenStatus('start the checks or the countdown first',
+        MissionStatus.CHECKS_IN_PROGRESS, MissionStatus.COUNTDOWN, MissionStatus.IN_FLIGHT),
+      run: args => execute(new FastForwardCommand(this.rocketSystem, this.logger, args.duration as number))
+    });
+    registry.register({
+      name: 'tick',
+      args: [{ name: 'step', type: ArgumentType.DURATION, min: 0, exclusiveMin: true }],
+      help: 'Set the simulation time step',
+      schedulable: true,
+      run: args => execute(new SetTimeStepCommand(this.rocketSystem, this.logger, args.step as number))
+    });
+    registry.register({
+      name: 'run',
+      args: [{ name: 'speed', type: ArgumentType.MULTIPLIER, optional: true, min: 0, exclusiveMin: true }],
+      help: 'Advance in real time, optionally at N times speed (e.g. 10x)',
+      precondition: needsClock,
+      run: args => this.startClock(args.speed as number | undefined)
+    });
+    registry.register({
+      name: 'pause',
+      help: 'Pause the real-time clock',
+      precondition: needsClock,
+      run: () => {
+        this.requireClock().pause();
+        this.logger.info(
+          `Real-time clock paused at ${formatMissionTime(this.rocketSystem.getState().missionTime)}`
+        );
+      }
+    });
+    registry.register({
+      name: 'speed',
+      args: [{ name: 'speed', type: ArgumentType.MULTIPLIER, min: 0, exclusiveMin: true }],
+      help: 'Change the real-time speed multiplier (e.g. 10x)',
+      precondition: needsClock,
+      run: args => {
+        const clock = this.requireClock();
+        clock.setSpeed(args.speed as number);
+        this.logger.info(`Real-time clock speed set to ${clock.getSpeed()}x`);
+      }
+    });
+    registry.register({
+      name: 'throttle',
+      args: [{ name: 'percent', type: ArgumentType.PERCENT, min: 0, max: 100 }],
+      help: 'Set engine throttle (within the stage limits)',
+      schedulable: true,
+      run: args => execute(new ThrottleCommand(this.rocketSystem, this.logger, args.percent as number))
+    });
+    registry.register({
+      name: 'pitch',
+      args: [{ name: 'degrees', type: ArgumentType.ANGLE, keywords: ['auto'], min: 0, max: 180 }],
+      help: 'Hold pitch at degrees from vertical, or back to auto',
+      schedulable: true,
+      run: args => {
+        const degrees = args.degrees === 'auto' ? null : args.degrees as number;
+        execute(new PitchCommand(this.rocketSystem, this.logger, degrees));
+      }
+    });
+    registry.register({
+      name: 'program',
+      args: [{ name: 'file', type: ArgumentType.PATH }],
+      help: 'Fly a time/pitch/throttle guidance table (JSON/YAML)',
+      schedulable: true,
+      accessesFiles: () => true,
+      run: args => execute(new LoadProgramCommand(this.rocketSystem, this.logger, args.file as string))
+    });
+    registry.register({
+      name: 'at',
+      args: [
+        { name: 'time', type: ArgumentType.MISSION_TIME },
+        { name: 'command', type: ArgumentType.COMMAND }
+      ],
+      help: 'Run a command at a mission time (e.g. at T+45 throttle 70)',
+      run: args => this.scheduler.add(
+        { kind: 'time', time: args.time as number },
+        args.command as string,
+        this.rocketSystem.getState()
+      )
+    });
+    registry.register({
+      name: 'when',
+      args: [
+        { name: 'field', type: ArgumentType.CHOICE, choices: CONDITION_FIELDS },
+        { name: 'op', type: ArgumentType.CHOICE, choices: COMPARISON_OPERATORS },
+        { name: 'value', type: ArgumentType.NUMBER },
+        { name: 'then', type: ArgumentType.CHOICE, choices: ['then'] },
+        { name: 'command', type: ArgumentType.COMMAND }
+      ],
+      help: 'Run a command once a condition holds (e.g. when altitude > 100 then pitch 60)',
+      run: args => this.scheduler.add(
+        {
+          kind: 'condition',
+          field: args.field as string,
+          operator: args.op as ComparisonOperator,
+          value: args.value as number
+        },
+        args.command as string,
+        this.rocketSystem.getState()
+      )
+    });
+    registry.register({
+      name: 'inject',
+      args: [
+        { name: 'anomaly', type: ArgumentType.CHOICE, choices: Object.values(AnomalyType) },
+        { name: 'at', type: ArgumentType.CHOICE, optional: true, choices: ['at'] },
+        { name: 'time', type: ArgumentType.MISSION_TIME, optional: true }
+      ],
+      help: 'Inject a failure now, or at a mission time (see "anomalies")',
+      schedulable: true,
+      run: args => {
+        const type = args.anomaly as AnomalyType;
+        if (args.time === undefined) {
+          if (args.at !== undefined) {
+            throw new InvalidArgumentException(
+              'inject', 'time', 'is missing', registry.formatUsage(registry.find('inject')!)
+            );
+          }
+          execute(new InjectAnomalyCommand(this.rocketSystem, this.logger, type));
+          return;
+        }
+        this.scheduler.add({ kind: 'time', time: args.time as number }, `inject ${type}`, this.rocketSystem.getState());
+      }
+    });
+    registry.register({
+      name: 'anomalies',
+      help: 'List the anomaly catalog and the anomalies in effect',
+      run: () => this.displayAnomalies()
+    });
+    registry.register({
+      name: 'schedule',
+      help: 'List scheduled commands',
+      run: () => this.displaySchedule()
+    });
+    registry.register({
+      name: 'cancel',
+      args: [{ name: 'id', type: ArgumentType.INTEGER, keywords: ['all'], min: 1 }],
+      help: 'Cancel a pending scheduled command, or all of them',
+      run: args => {
+        if (args.id === 'all') {
+          this.scheduler.cancelAll();
+        } else {
+          this.scheduler.cancel(args.id as number);
+        }
+      }
+    });
+    registry.register({
+      name: 'rules',
+      args: [
+        { name: 'action', type: ArgumentType.CHOICE, optional: true, choices: ['list', 'load', 'enable', 'disable'] },
+        { name: 'target', type: ArgumentType.PATH, optional: true }
+      ],
+      help: 'List flight rules, load a rules file, or enable/disable a rule (or all)',
+      accessesFiles: args => args.action === 'load',
+      run: args => {
+        const action = (args.action as string | undefined) ?? 'list';
+        const target = args.target as string | undefined;
+        if ((action === 'list') !== (target === undefined)) {
+          throw new InvalidArgumentException(
+            'rules', 'target', action === 'list' ? 'is not expected here' : 'is missing',
+            registry.formatUsage(registry.find('rules')!)
+          );
+        }
+        if (action === 'list') {
+          this.displayRules();
+        } else if (action === 'load') {
+          this.flightRules.load(target!);
+        } else {
+          this.flightRules.setEnabled(target!, action === 'enable');
+        }
+      }
+    });
+    registry.register({
+      name: 'load_rocket',
+      args: [{ name: 'file', type: ArgumentType.PATH }],
+      help: 'Load a rocket definition (JSON/YAML) before checks',
+      accessesFiles: () => true,
+      precondition: this.whenStatus('the rocket can only be changed before pre-launch checks',
+        MissionStatus.PRE_LAUNCH),
+      run: args => execute(new LoadRocketCommand(this.rocketSystem, this.logger, args.file as string))
+    });
+    registry.register({
+      name: 'rewind',
+      args: [{ name: 'duration', type: ArgumentType.DURATION, min: 0, exclusiveMin: true }],
+      help: 'Rewind the flight by a duration',
+      run: args => execute(new RewindCommand(this.rocketSystem, this.logger, args.duration as number))
+    });
+    registry.register({
+      name: 'undo',
+      help: 'Undo the last command',
+      run: () => this.commandInvoker.undoLastCommand()
+    });
+    registry.register({
+      name: 'seed',
+      args: [{ name: 'n', type: ArgumentType.INTEGER, min: 0, max: 0xFFFFFFFF }],
+      help: 'Reseed the random source for reproducible runs',
+      run: args => execute(new SetSeedCommand(this.rocketSystem, this.logger, args.n as number))
+    });
+    registry.register({
+      name: 'export',
+      args: [
+        { name: 'format', type: ArgumentType.CHOICE, choices: ['csv', 'json'] },
+        { name: 'file', type: ArgumentType.PATH }
+      ],
+      help: 'Export recorded telemetry to a file',
+      schedulable: true,
+      accessesFiles: () => true,
+      run: args => execute(new ExportTelemetryCommand(
+        this.rocketSystem, this.logger, this.telemetryRecorder,
+        args.format as 'csv' | 'json', args.file as string
+      ))
+    });
+    registry.register({
+      name: 'save',
+      args: [{ name: 'file', type: ArgumentType.PATH }],
+      help: 'Save the whole session to a file',
+      schedulable: true,
+      accessesFiles: () => true,
+      run: args => execute(new SaveSessionCommand(
+        this.rocketSystem, this.logger, this.getSessionParts(), args.file as string
+      ))
+    });
+    registry.register({
+      name: 'load',
+      args: [{ name: 'file', type: ArgumentType.PATH }],
+      help: 'Restore a session saved with "save"',
+      accessesFiles: () => true,
+      run: args => execute(new LoadSessionCommand(
+        this.rocketSystem, this.logger, this.getSessionParts(), args.file as string
+      ))
+    });
+    registry.register({
+      name: 'report',
+      args: [
+        { name: 'format', type: ArgumentType.CHOICE, optional: true, choices: REPORT_FORMATS },
+        { name: 'file', type: ArgumentType.PATH, optional: true }
+      ],
+      help: 'Show the mission report, or write it as Markdown, HTML or JSON',
+      schedulable: true,
+      accessesFiles: args => args.file !== undefined,
+      run: args => {
+        const format = args.format as ReportFormat | undefined;
+        const file = args.file as string | undefined;
+        if ((format === undefined) !== (file === undefined)) {
+          throw new InvalidArgumentException(
+            'report', format === undefined ? 'format' : 'file', 'is missing',
+            registry.formatUsage(registry.find('report')!)
+          );
+        }
+        if (format === undefined) {
+          console.log(`\n${formatMissionReport(this.reporter.build())}\n`);
+          return;
+        }
+        writeMissionReport(this.reporter.build(), format, file!);
+        this.logger.info(`Mission report written to ${file}`);
+      }
+    });
+    registry.register({
+      name: 'sensors',
+      help: 'Show the sensor noise models of the rocket',
+      run: () => this.displaySensors()
+    });
+    registry.register({
+      name: 'logs',
+      args: [
+        { name: 'n', type: ArgumentType.INTEGER, optional: true, min: 1 },
+        { name: 'level', type: ArgumentType.CHOICE, optional: true, choices: ['debug', 'info', 'warn', 'error'] }
+      ],
+      help: 'Show the last n log entries (default 20) at level (default: the log level) or above',
+      run: args => this.displayLogs(
+        (args.n as number | undefined) ?? 20,
+        args.level !== undefined ? parseLogLevel(args.level as string) : this.logger.getMinimumLevel()
+      )
+    });
+    registry.register({
+      name: 'status',
+      aliases: ['st'],
+      help: 'Display current mission status',
+      schedulable: true,
+      run: () => this.displayStatus()
+    });
+    registry.register({
+      name: 'exit',
+      aliases: ['quit'],
+      help: 'Exit the simulator',
+      run: () => {
+        // The interactive prompt handles exit before it gets here
+        throw new SimulatorException('exit is only available at the interactive prompt');
+      }
+    });
+    registry.register({
+      name: 'help',
+      aliases: ['?'],
+      args: [{ name: 'command', type: ArgumentType.CHOICE, optional: true, choices: [] }],
+      help: 'Show this help message, or the usage of one command',
+      run: args => this.displayHelp(args.command as string | undefined)
+    });
+
+    // `help <command>` completes and validates against everything registered
+    const helpArgument = registry.find('help')!.args![0];
+    helpArgument.choices = registry.getNames().sort();
+    return registry;
+  }
+
+  private getSessionParts(): ISessionParts {
+    return {
+      invoker: this.commandInvoker,
+      recorder: this.telemetryRecorder,
+      scheduler: this.scheduler,
+      flightRules: this.flightRules
+    };
+  }
+
+  private whenStatus(reason: string, ...statuses: MissionStatus[]): () => string | null {
+    return () => statuses.includes(this.rocketSystem.getState().status) ? null : reason;
+  }
+
+  // The dashboard shows recent log lines itself, so it only keeps file sinks.
+  private configureLogging(options: ISimulatorOptions): void {
+    const sinks: ILogSink[] = this.dashboard ? [] : [new ConsoleSink()];
+    if (options.logFile) {
+      sinks.push(new RotatingFileSink(options.logFile));
+    }
+    if (options.logJson) {
+      sinks.push(new JsonLinesSink(options.logJson));
+    }
+    this.logger.setSinks(sinks);
+    this.logger.setMinimumLevel(options.logLevel ?? LogLevel.INFO);
+    this.logger.setContextProvider(() => {
+      const { missionTime, stage } = this.rocketSystem.getState();
+      return {
+        missionTime,
+        stage,
+        command: this.commandInvoker.getActiveCommand()?.getDescription()
+      };
+    });
+  }
+
+  private requireClock(): RealTimeClock {
+    if (!this.clock) {
+      throw new SimulatorException('Real-time mode is only available in interactive sessions');
+    }
+    return this.clock;
+  }
+
+  private startClock(speed?: number): void {
+    const clock = this.requireClock();
+    const { status } = this.rocketSystem.getState();
+    if (status !== MissionStatus.CHECKS_IN_PROGRESS &&
+        status !== MissionStatus.COUNTDOWN &&
+        status !== MissionStatus.COUNTDOWN_HOLD &&
+        status !== MissionStatus.IN_FLIGHT) {
+      throw new InvalidStateException('Nothing to run: start the checks or the countdown first');
+    }
+
+    if (speed !== undefined) {
+      clock.setSpeed(speed);
+    }
+    clock.start();
+    this.logger.info(`Real-time clock running at ${clock.getSpeed()}x`);
+  }
+
+  // Advances the rocket with wall-clock time until the flight is over. A held
+  // countdown just lets the clock idle.
+  private onClockTick(seconds: number): boolean {
+    const { status } = this.rocketSystem.getState();
+    if (status === MissionStatus.COUNTDOWN_HOLD) {
+      return true;
+    }
+    if (status !== MissionStatus.CHECKS_IN_PROGRESS &&
+        status !== MissionStatus.COUNTDOWN && status !== MissionStatus.IN_FLIGHT) {
+      this.logger.info(`Real-time clock stopped: ${status}`);
+      return false;
+    }
+
+    try {
+      this.rocketSystem.advanceTime(seconds);
+      return true;
+    } catch (error) {
+      return false; // already logged by the rocket system
+    } finally {
+      this.printReportIfMissionEnded();
+    }
+  }
+
+  // The debrief follows the command or clock tick that ended the mission,
+  // so that the report lists that command too.
+  private printReportIfMissionEnded(): void {
+    if (this.reporter.takeMissionEnded()) {
+      console.log(`\n${formatMissionReport(this.reporter.build())}\n`);
+    }
+  }
+
+  // Readings are telemetry, as on every other ground display.
   private displayStatus(): void {
-    const state = this.rocketSystem.getState();
+    const state = this.rocketSystem.getTelemetry();
     console.log('\n=== MISSION STATUS ===');
+    console.log(`Rocket: ${this.rocketSystem.getConfig().name}`);
     console.log(`Status: ${state.status}`);
+    console.log(`Mission Time: ${formatMissionTime(state.missionTime)}`);
+    console.log(`Seed: ${this.rocketSystem.getRandomSource().getSeed()}`);
+    if (this.clock) {
+      const clockState = !this.clock.isRunning() ? 'stopped'
+        : this.clock.isPaused() ? 'paused' : 'running';
+      console.log(`Clock: ${clockState} (${this.clock.getSpeed()}x)`);
+    }
+    if (state.abortMode) {
+      console.log(`Abort Mode: ${state.abortMode}`);
+    }
     console.log(`Stage: ${state.stage}`);
     console.log(`Fuel: ${state.fuel.toFixed(1)}%`);
     console.log(`Altitude: ${state.altitude.toFixed(1)} km`);
     console.log(`Speed: ${state.speed.toFixed(1)} km/h`);
+    console.log(`Throttle: ${state.throttle.toFixed(0)}%`);
+    console.log(`Guidance: ${this.rocketSystem.getGuidanceName()}`);
+    const anomalies = this.rocketSystem.getActiveAnomalies();
+    if (anomalies.length > 0) {
+      console.log(`Anomalies: ${anomalies.map(anomaly => `${anomaly.type} (stage ${anomaly.stage})`).join(', ')}`);
+    }
+    if (state.stage > 0) {
+      const orbit = orbitalElements(state.altitude * 1000, state.velocity, state.horizontalVelocity);
+      console.log(`Downrange: ${state.downrange.toFixed(1)} km`);
+      console.log(`Pitch: ${state.pitch.toFixed(1)}° from vertical`);
+      console.log(`Apoapsis: ${formatApsis(orbit.apoapsis)}`);
+      console.log(`Periapsis: ${formatApsis(orbit.periapsis)}`);
+    }
+    console.log('=====================\n');
+  }
+
+  private displaySensors(): void {
+    const models = this.rocketSystem.getSensorSuite().getModels();
+    console.log('\n=== SENSORS ===');
+    const width = Math.max(...SENSOR_FIELDS.map(field => field.length));
+    SENSOR_FIELDS.forEach(field => {
+      const model = models[field];
+      const unit = SENSOR_UNITS[field];
+      const effects: string[] = [];
+      if (model?.noise) {
+        effects.push(`noise ±${model.noise} ${unit}`);
+      }
+      if (model?.resolution) {
+        effects.push(`resolution ${model.resolution} ${unit}`);
+      }
+      if (model?.dropoutRate) {
+        effects.push(`dropout ${(model.dropoutRate * 100).toFixed(1)}%`);
+      }
+      console.log(`${field.padEnd(width)} - ${effects.length > 0 ? effects.join(', ') : 'exact'}`);
+    });
+    console.log('=====================\n');
+  }
+
+  private displayAnomalies(): void {
+    console.log('\n=== ANOMALIES ===');
+    const width = Math.max(...Object.keys(ANOMALY_DESCRIPTIONS).map(type => type.length));
+    Object.entries(ANOMALY_DESCRIPTIONS).forEach(([type, description]) => {
+      console.log(`${type.padEnd(width)} - ${description}`);
+    });
+    const active = this.rocketSystem.getActiveAnomalies();
+    console.log('\nIn effect:');
+    if (active.length === 0) {
+      console.log('  none');
+    }
+    active.forEach(anomaly => {
+      console.log(`  ${anomaly.type} on stage ${anomaly.stage} since ${formatMissionTime(anomaly.injectedAt)}`);
+    });
+    console.log('=====================\n');
+  }
+
+  private displaySchedule(): void {
+    const entries = this.scheduler.getEntries();
+    console.log(`\n=== SCHEDULE (${entries.length}) ===`);
+    if (entries.length === 0) {
+      console.log('Nothing scheduled. Use "at" or "when" to queue a command.');
+    }
+    const width = Math.max(...entries.map(entry => formatTrigger(entry.trigger).length), 0);
+    const commandWidth = Math.max(...entries.map(entry => entry.command.length), 0);
+    entries.forEach(entry => {
+      const outcome = entry.status === ScheduleStatus.PENDING ? 'pending'
+        : entry.status === ScheduleStatus.DONE ? `done at ${formatMissionTime(entry.firedAt!)}`
+        : `FAILED at ${formatMissionTime(entry.firedAt!)}: ${entry.failure}`;
+      console.log(
+        `#${String(entry.id).padEnd(3)} ${formatTrigger(entry.trigger).padEnd(width)}  ` +
+        `${entry.command.padEnd(commandWidth)}  ${outcome}`
+      );
+    });
     console.log('=====================\n');
   }
 
-  private displayHelp(): void {
+  private displayRules(): void {
+    const rules = this.flightRules.getRules();
+    const source = this.flightRules.getSource();
+    console.log(`\n=== FLIGHT RULES (${rules.length}${source ? `, from ${source}` : ''}) ===`);
+    if (rules.length === 0) {
+      console.log('No flight rules loaded. Use "rules load <file>" or --rules.');
+    }
+    const width = Math.max(...rules.map(status => status.rule.name.length), 0);
+    rules.forEach(({ rule, enabled, violations, lastViolatedAt }) => {
+      const history = lastViolatedAt === null ? ''
+        : `  (violated ${violations}x, last at ${formatMissionTime(lastViolatedAt)})`;
+      console.log(
+        `${enabled ? '[on] ' : '[off]'} ${rule.name.padEnd(width)}  ${rule.level.padEnd(5)}  ${formatRule(rule)}${history}`
+      );
+    });
+    console.log('=====================\n');
+  }
+
+  // The last `count` entries at `level` or above.
+  private displayLogs(count: number, level: LogLevel): void {
+    const entries = this.logger.getEntries(count, level);
+    console.log(`\n=== LOGS (${entries.length}, ${level} and above) ===`);
+    entries.forEach(entry => console.log(formatLogEntry(entry, true)));
+    console.log('=====================\n');
+  }
+
+  private displayHelp(commandName?: string): void {
+    if (commandName !== undefined) {
+      const definition = this.commands.find(commandName)!;
+      console.log(`\n${this.commands.formatUsage(definition)}`);
+      console.log(`  ${definition.help}`);
+      if (definition.aliases?.length) {
+        console.log(`  Aliases: ${definition.aliases.join(', ')}`);
+      }
+      console.log('');
+      return;
+    }
+
     console.log('\n=== AVAILABLE COMMANDS ===');
-    console.log('start_checks    - Initiate pre-launch system checks');
-    console.log('launch          - Launch the rocket (after checks)');
-    console.log('fast_forward X  - Advance simulation by X seconds');
-    console.log('status          - Display current mission status');
-    console.log('help            - Show this help message');
-    console.log('exit            - Exit the simulator');
+    this.commands.formatHelp().forEach(line => console.log(line));
     console.log('=========================\n');
   }
 
@@ -119,16 +771,170 @@ class RocketLaunchSimulator {
 // MAIN EXECUTION
 // ============================================================================
 
-function demo(): void {
-  const simulator = new RocketLaunchSimulator();
+function parseSeed(value: string | undefined): number {
+  const seed = Number(value);
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF) {
+    throw new SimulatorException('Seed must be an integer between 0 and 4294967295');
+  }
+  return seed;
+}
+
+function formatApsis(altitude: number): string {
+  if (!Number.isFinite(altitude)) {
+    return 'none (escape trajectory)';
+  }
+  return altitude < 0
+    ? `${altitude.toFixed(1)} km (below the surface)`
+    : `${altitude.toFixed(1)} km`;
+}
+
+function parseArguments(argv: string[]): ISimulatorOptions {
+  const options: ISimulatorOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--seed') {
+      options.seed = parseSeed(argv[++i]);
+    } else if (argv[i] === '--ui') {
+      const ui = argv[++i];
+      if (ui !== 'log' && ui !== 'dashboard') {
+        throw new SimulatorException('--ui must be "log" or "dashboard"');
+      }
+      options.ui = ui;
+    } else if (argv[i] === '--log-level') {
+      options.logLevel = parseLogLevel(argv[++i]);
+    } else if (argv[i] === '--log-file' || argv[i] === '--log-json') {
+      const option = argv[i];
+      const filePath = argv[++i];
+      if (!filePath) {
+        throw new SimulatorException(`${option} requires a file path`);
+      }
+      if (option === '--log-file') {
+        options.logFile = filePath;
+      } else {
+        options.logJson = filePath;
+      }
+    } else if (argv[i] === '--serve') {
+      options.serve = Number(argv[++i]);
+      if (!Number.isInteger(options.serve) || options.serve < 0 || options.serve > 65535) {
+        throw new SimulatorException('--serve requires a port number');
+      }
+    } else if (argv[i] === '--host') {
+      options.host = argv[++i];
+      if (!options.host) {
+        throw new SimulatorException('--host requires an address');
+      }
+    } else if (argv[i] === '--allow-origin') {
+      const origin = argv[++i];
+      if (!origin) {
+        throw new SimulatorException('--allow-origin requires an origin such as http://localhost:8080');
+      }
+      options.allowedOrigins = [...(options.allowedOrigins ?? []), origin];
+    } else if (argv[i] === '--rules') {
+      options.rules = argv[++i];
+      if (!options.rules) {
+        throw new SimulatorException('--rules requires a file path');
+      }
+    } else if (argv[i] === '--script') {
+      options.script = argv[++i];
+      if (!options.script) {
+        throw new SimulatorException('--script requires a file path');
+      }
+    } else {
+      throw new SimulatorException(`Unknown option: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+interface IMonteCarloOptions {
+  runs: number;
+  config?: string;
+  seed?: number;
+  dispersions: IDispersions;
+  json?: string; // report file, or "-" for JSON on stdout instead of the table
+}
+
+const DISPERSION_OPTIONS: { [name: string]: keyof IDispersions } = {
+  thrust: 'thrust',
+  propellant: 'propellant',
+  checks: 'checkFailureRate'
+};
+
+// `montecarlo --runs N [--config F] [--seed N] [--dispersion name=sigma%]... [--json F|-]`
+function parseMonteCarloArguments(argv: string[]): IMonteCarloOptions {
+  const options: IMonteCarloOptions = { runs: 100, dispersions: { ...DEFAULT_DISPERSIONS } };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--runs') {
+      options.runs = Number(argv[++i]);
+      if (!Number.isInteger(options.runs) || options.runs <= 0) {
+        throw new SimulatorException('--runs must be a positive whole number');
+      }
+    } else if (argv[i] === '--config') {
+      options.config = argv[++i];
+      if (!options.config) {
+        throw new SimulatorException('--config requires a file path');
+      }
+    } else if (argv[i] === '--seed') {
+      options.seed = parseSeed(argv[++i]);
+    } else if (argv[i] === '--dispersion') {
+      const [name, value] = (argv[++i] ?? '').split('=');
+      const key = DISPERSION_OPTIONS[name];
+      const sigma = Number(value?.replace(/%$/, ''));
+      if (!key || value === undefined || !Number.isFinite(sigma) || sigma < 0) {
+        throw new SimulatorException(
+          `--dispersion expects name=percent with name one of: ${Object.keys(DISPERSION_OPTIONS).join(', ')}`
+        );
+      }
+      options.dispersions[key] = sigma;
+    } else if (argv[i] === '--json') {
+      options.json = argv[++i];
+      if (!options.json) {
+        throw new SimulatorException('--json requires a file path or "-"');
+      }
+    } else {
+      throw new SimulatorException(`Unknown montecarlo option: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+function runMonteCarlo(argv: string[]): number {
+  try {
+    const options = parseMonteCarloArguments(argv);
+    const config = options.config ? RocketConfigLoader.load(options.config) : DEFAULT_ROCKET_CONFIG;
+    const runner = new MonteCarloRunner(config, options.dispersions, options.seed);
+
+    const started = Date.now();
+    const report = runner.run(options.runs);
+    if (options.json === '-') {
+      console.log(JSON.stringify(report, null, 2));
+      return 0;
+    }
+
+    console.log(formatMonteCarloReport(report));
+    console.log(`${report.runs} run(s) in ${((Date.now() - started) / 1000).toFixed(1)} s`);
+    if (options.json) {
+      writeMonteCarloReport(report, options.json);
+      console.log(`Report written to ${options.json}`);
+    }
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : 'Monte Carlo analysis failed');
+    return 1;
+  }
+}
+
+function demo(options: ISimulatorOptions): void {
+  const simulator = new RocketLaunchSimulator(options);
   simulator.displayWelcome();
 
   // Example usage - in real implementation, this would read from stdin
   const commands = [
     'help',
     'start_checks',
+    'fast_forward 60',
     'launch',
     'fast_forward 10',
+    'fast_forward 10',
     'status',
     'fast_forward 50',
     'status'
@@ -144,38 +950,151 @@ function demo(): void {
   });
 }
 
-function runInteractive(): void {
-  const simulator = new RocketLaunchSimulator();
+function runScript(options: ISimulatorOptions, scriptPath: string): number {
+  const simulator = new RocketLaunchSimulator(options);
+
+  try {
+    const result = new ScriptRunner(simulator).runFile(scriptPath);
+    const summary = `${result.commands} command(s), ${result.assertions} assertion(s)`;
+    if (!result.passed) {
+      console.error(`\nScript FAILED after ${summary}.`);
+      return 1;
+    }
+    console.log(`\nScript passed: ${summary}.`);
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : 'Script execution failed');
+    return 1;
+  }
+}
+
+// Headless: commands come in over HTTP and state goes out over WebSocket.
+function runServer(options: ISimulatorOptions, port: number): void {
+  const simulator = new RocketLaunchSimulator({ ...options, realTime: true, ui: 'log' });
+  const server = new SimulatorServer(simulator, ConsoleLogger.getInstance(), options.allowedOrigins);
+  const host = options.host ?? '127.0.0.1';
+
+  server.listen(port, host)
+    .then(() => console.log(`Control server listening on ${server.getAddress()} (WebSocket: /stream)`))
+    .catch(error => {
+      console.error(`Cannot start control server: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    });
+
+  const shutdown = () => {
+    console.log('Shutting down control server...');
+    server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+const HISTORY_FILE = path.join(os.homedir(), '.rocket-simulator-history');
+const HISTORY_SIZE = 500;
+const EXIT_COMMANDS = ['exit', 'quit'];
+
+// readline wants the most recent entry first.
+function loadHistory(): string[] {
+  try {
+    return fs.readFileSync(HISTORY_FILE, 'utf8').split('\n')
+      .filter(line => line.trim() !== '')
+      .slice(-HISTORY_SIZE)
+      .reverse();
+  } catch (error) {
+    return []; // no history yet
+  }
+}
+
+function saveHistory(input: string): void {
+  if (input === '') {
+    return;
+  }
+  try {
+    fs.appendFileSync(HISTORY_FILE, input + '\n');
+  } catch (error) {
+    // History is a convenience; a read-only home directory must not stop the session
+  }
+}
+
+function runInteractive(options: ISimulatorOptions): void {
+  // Escape codes would only garble a pipe or a log file
+  let ui = options.ui;
+  if (ui === 'dashboard' && !process.stdout.isTTY) {
+    console.warn('Dashboard needs a terminal; falling back to log output.');
+    ui = 'log';
+  }
+
+  const simulator = new RocketLaunchSimulator({ ...options, realTime: true, ui });
+  simulator.refreshDisplay();
   simulator.displayWelcome();
 
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
-    prompt: '> '
+    prompt: '> ',
+    completer: (line: string) => simulator.complete(line),
+    history: loadHistory(),
+    historySize: HISTORY_SIZE,
+    removeHistoryDuplicates: true
   });
 
   rl.prompt();
 
   rl.on('line', (line) => {
     const input = line.trim();
-    
-    if (input.toLowerCase() === 'exit') {
+    saveHistory(input);
+
+    if (EXIT_COMMANDS.includes(input.toLowerCase())) {
       console.log('Shutting down simulator...');
       rl.close();
       return;
     }
 
     simulator.processInput(input);
+    simulator.refreshDisplay();
     rl.prompt();
   });
 
   rl.on('close', () => {
+    simulator.closeDisplay();
     console.log('Simulator terminated.');
     process.exit(0);
   });
 }
 
-runInteractive();
+function main(): void {
+  if (process.argv[2] === 'montecarlo') {
+    process.exit(runMonteCarlo(process.argv.slice(3)));
+  }
+
+  let options: ISimulatorOptions;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : 'Invalid arguments');
+    process.exit(1);
+  }
+
+  try {
+    if (options.script) {
+      process.exit(runScript(options, options.script));
+    }
+
+    if (options.serve !== undefined) {
+      runServer(options, options.serve);
+      return;
+    }
+
+    runInteractive(options);
+  } catch (error) {
+    // e.g. a --rules file that does not load
+    console.error(error instanceof Error ? error.message : 'Cannot start the simulator');
+    process.exit(1);
+  }
+
+  // Run the demo
+  // demo(options);
+}
 
-// Run the demo
-// demo();
\ No newline at end of file
+main();
\ No newline at end of file
@@ -1,6 +1,14 @@
+import { ANOMALY_DESCRIPTIONS, AnomalySet } from "./anomalies";
+import { CheckRunner, ConfiguredSystemCheck } from "./checks";
+import { DEFAULT_ROCKET_CONFIG } from "./config";
 import { InvalidStateException, SimulatorException } from "./exceptions";
+import { formatMissionTime } from "./format";
+import { GuidanceFactory, ProgramGuidance } from "./guidance";
+import { EARTH_RADIUS, circularVelocityAt, classifyTrajectory, dragForce, gravityAt, metersPerSecondToKmh, orbitalElements } from "./physics";
+import { SeededRandom } from "./random";
+import { SensorSuite } from "./sensors";
 import { StageFactory } from "./stages";
-import { ILogger, IRocketState, IStageStrategy, MissionStatus } from "./types";
+import { AbortMode, AnomalyType, CheckOutcome, GuidanceMode, GuidanceSetting, IAnomaly, ICheckAttempt, IChecksInProgress, IGuidanceStrategy, ILogger, IOrbitalElements, IRandomSource, IRocketConfig, IRocketSnapshot, IFlightScheduler, IRocketState, ISensorReadings, ISimulationCheckpoint, IStageStrategy, ISystemCheck, MissionStatus, RocketEvent, RocketEventType, StateFeed, TrajectoryType } from "./types";
 
 // ============================================================================
 // ROCKET STATE (State Pattern)
@@ -12,7 +20,14 @@ class RocketState implements IRocketState {
     public fuel: number = 100,
     public altitude: number = 0,
     public speed: number = 0,
-    public status: MissionStatus = MissionStatus.PRE_LAUNCH
+    public status: MissionStatus = MissionStatus.PRE_LAUNCH,
+    public velocity: number = 0, // m/s, vertical, positive is up
+    public missionTime: number = 0, // s since launch
+    public abortMode: AbortMode | null = null,
+    public horizontalVelocity: number = 0, // m/s
+    public downrange: number = 0, // km
+    public pitch: number = 0, // degrees from vertical
+    public throttle: number = 100 // % of full thrust
   ) {}
 
   clone(): RocketState {
@@ -21,7 +36,31 @@ class RocketState implements IRocketState {
       this.fuel,
       this.altitude,
       this.speed,
-      this.status
+      this.status,
+      this.velocity,
+      this.missionTime,
+      this.abortMode,
+      this.horizontalVelocity,
+      this.downrange,
+      this.pitch,
+      this.throttle
+    );
+  }
+
+  static from(state: IRocketState): RocketState {
+    return new RocketState(
+      state.stage,
+      state.fuel,
+      state.altitude,
+      state.speed,
+      state.status,
+      state.velocity,
+      state.missionTime,
+      state.abortMode,
+      state.horizontalVelocity,
+      state.downrange,
+      state.pitch,
+      state.throttle
     );
   }
 }
@@ -30,68 +69,373 @@ class RocketState implements IRocketState {
 // ROCKET SYSTEM (Core Logic with Observer Pattern)
 // ============================================================================
 
+// Observers may listen to every state change, to discrete mission events, or
+// both. Each receives its own copy of the state: the telemetry the sensors
+// produce, or the exact truth.
 export interface IRocketObserver {
-  onStateUpdate(state: IRocketState): void;
+  onStateUpdate?(state: IRocketState): void;
+  onEvent?(event: RocketEvent, state: IRocketState): void;
+  // Undo, rewind and load put back an earlier snapshot. An observer that
+  // keeps a record tags it with getJournalPosition() and drops whatever was
+  // tagged after `position`, or all of it for a loaded session (null).
+  onRestore?(position: number | null): void;
+}
+
+interface IObserverRegistration {
+  observer: IRocketObserver;
+  eventTypes: Set<RocketEventType> | null; // null means every event type
+  feed: StateFeed;
 }
 
 export class RocketSystem {
   private state: RocketState;
   private currentStageStrategy: IStageStrategy | null = null;
-  private observers: IRocketObserver[] = [];
+  private observers: IObserverRegistration[] = [];
   private logger: ILogger;
-  private readonly ORBIT_ALTITUDE = 160; // km
-  private readonly MIN_FUEL_FOR_ORBIT = 5;
+  private config: IRocketConfig;
+  private stageFactory: StageFactory;
+  private guidance: IGuidanceStrategy;
+  private guidanceSetting: GuidanceSetting = { mode: GuidanceMode.GRAVITY_TURN };
+  private random: IRandomSource;
+  private systemChecks: ISystemCheck[] | null = null;
+  private readonly EVENT_TIME_TOLERANCE = 1e-4; // s
+  private readonly TIME_EPSILON = 1e-9; // s
+  private readonly REWIND_WINDOW = 300; // s of flight kept for rewind
+  private timeStep = 1; // s
+  private flightHistory: IRocketSnapshot[] = [];
+  private checks: IChecksInProgress | null = null;
+  private journalPosition = 0; // moves on with every snapshot
+  private scheduler: IFlightScheduler | null = null;
+  private anomalies = new AnomalySet();
+  private sensors: SensorSuite;
+  private telemetry: IRocketState; // the last frame sent to observers
+  private sampledState: IRocketState; // the truth that frame was read from
 
-  constructor(logger: ILogger) {
+  constructor(
+    logger: ILogger,
+    config: IRocketConfig = DEFAULT_ROCKET_CONFIG,
+    random: IRandomSource = new SeededRandom()
+  ) {
     this.state = new RocketState();
     this.logger = logger;
+    this.config = config;
+    this.stageFactory = new StageFactory(config);
+    this.guidance = new GuidanceFactory(config.guidance).createGuidance(this.guidanceSetting);
+    this.random = random;
+    this.sensors = new SensorSuite(config.sensors, random.getSeed());
+    this.telemetry = this.getState();
+    this.sampledState = this.getState();
   }
 
-  addObserver(observer: IRocketObserver): void {
-    this.observers.push(observer);
+  // `eventTypes` limits which events reach onEvent; state updates are
+  // always delivered.
+  addObserver(
+    observer: IRocketObserver,
+    eventTypes?: RocketEventType[],
+    feed: StateFeed = StateFeed.TELEMETRY
+  ): void {
+    if (this.observers.some(registration => registration.observer === observer)) {
+      throw new SimulatorException('Observer is already registered');
+    }
+    this.observers.push({
+      observer,
+      eventTypes: eventTypes ? new Set(eventTypes) : null,
+      feed
+    });
+  }
+
+  removeObserver(observer: IRocketObserver): boolean {
+    const index = this.observers.findIndex(registration => registration.observer === observer);
+    if (index === -1) {
+      return false;
+    }
+    this.observers.splice(index, 1);
+    return true;
   }
 
   private notifyObservers(): void {
-    this.observers.forEach(observer => observer.onStateUpdate(this.state));
+    this.sampleTelemetry();
+    this.forEachObserver(({ observer, feed }) => observer.onStateUpdate?.(this.getFeed(feed)));
+  }
+
+  // Events carry the state they leave behind, e.g. the new stage after a
+  // separation. The last frame is reused when the state has not moved since,
+  // so no extra sensor noise is drawn.
+  private emitEvent(event: RocketEvent): void {
+    if (!RocketSystem.isSameState(this.sampledState, this.state)) {
+      this.sampleTelemetry();
+    }
+    this.forEachObserver(({ observer, eventTypes, feed }) => {
+      if (!eventTypes || eventTypes.has(event.type)) {
+        observer.onEvent?.(event, this.getFeed(feed));
+      }
+    });
+  }
+
+  private getFeed(feed: StateFeed): IRocketState {
+    return feed === StateFeed.TRUTH ? this.getState() : this.getTelemetry();
+  }
+
+  // Sensor readings of the current state, unless a sensor dropout has frozen
+  // the navigation readings at their last good values.
+  private sampleTelemetry(): void {
+    const frozen = this.anomalies.getFrozenReadings(this.state);
+    this.telemetry = frozen
+      ? { ...this.sensors.read(this.state), ...frozen }
+      : this.sensors.read(this.state);
+    this.sampledState = this.getState();
+  }
+
+  private static isSameState(a: IRocketState, b: IRocketState): boolean {
+    return (Object.keys(a) as (keyof IRocketState)[]).every(key => a[key] === b[key]);
+  }
+
+  // A failing observer must not interrupt the simulation or the observers
+  // after it, so its error is logged and delivery carries on.
+  private forEachObserver(deliver: (registration: IObserverRegistration) => void): void {
+    // Copy so observers can unsubscribe while being notified
+    [...this.observers].forEach(registration => {
+      try {
+        deliver(registration);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Observer error: ${reason}`);
+      }
+    });
   }
 
   getState(): IRocketState {
     return { ...this.state };
   }
 
+  // What the ground saw last: the state as the sensors reported it.
+  getTelemetry(): IRocketState {
+    return { ...this.telemetry };
+  }
+
+  getSensorSuite(): SensorSuite {
+    return this.sensors;
+  }
+
+  // The orbit the vehicle would follow if the engines stopped now.
+  getOrbitalElements(): IOrbitalElements {
+    return RocketSystem.orbitOf(this.state);
+  }
+
+  getConfig(): IRocketConfig {
+    return this.config;
+  }
+
+  getRandomSource(): IRandomSource {
+    return this.random;
+  }
+
+  setRandomSource(random: IRandomSource): void {
+    this.random = random;
+    this.sensors.reseed(random.getSeed());
+    this.logger.info(`Random seed set to ${random.getSeed()}`);
+  }
+
+  createSnapshot(): IRocketSnapshot {
+    return {
+      state: this.state.clone(),
+      config: this.config,
+      checks: this.copyChecks(this.checks),
+      position: this.journalPosition++
+    };
+  }
+
+  // Anything recorded from now on comes after every snapshot taken so far.
+  getJournalPosition(): number {
+    return this.journalPosition;
+  }
+
+  createCheckpoint(): ISimulationCheckpoint {
+    return {
+      state: { ...this.state },
+      config: this.config,
+      timeStep: this.timeStep,
+      random: {
+        seed: this.random.getSeed(),
+        state: this.random.getState(),
+        sensorState: this.sensors.getRandomState()
+      },
+      flightHistory: this.flightHistory.map(snapshot => ({ ...snapshot.state })),
+      guidance: this.guidanceSetting,
+      anomalies: this.anomalies.getAll(),
+      checks: this.copyChecks(this.checks)
+    };
+  }
+
+  // Unlike a snapshot, a checkpoint also carries the random sequence, time
+  // step and rewind window, so a restored session carries on identically.
+  restoreCheckpoint(checkpoint: ISimulationCheckpoint): void {
+    this.random = SeededRandom.restore(checkpoint.random.seed, checkpoint.random.state);
+    this.sensors.restore(checkpoint.random.seed, checkpoint.random.sensorState);
+    this.config = checkpoint.config;
+    this.timeStep = checkpoint.timeStep;
+    this.guidanceSetting = checkpoint.guidance;
+    this.anomalies.restore(checkpoint.anomalies);
+    this.flightHistory = checkpoint.flightHistory.map(state => ({
+      state: RocketState.from(state),
+      config: checkpoint.config
+    }));
+    this.restoreSnapshot({ state: checkpoint.state, config: checkpoint.config, checks: checkpoint.checks });
+  }
+
+  restoreSnapshot(snapshot: IRocketSnapshot): void {
+    this.state = RocketState.from(snapshot.state);
+    this.config = snapshot.config;
+    this.checks = this.copyChecks(snapshot.checks ?? null);
+    this.stageFactory = new StageFactory(snapshot.config);
+    this.guidance = new GuidanceFactory(snapshot.config.guidance).createGuidance(this.guidanceSetting);
+    this.sensors.setModels(snapshot.config.sensors);
+    this.currentStageStrategy = this.state.stage > 0
+      ? this.stageFactory.createStage(this.state.stage)
+      : null;
+    this.logger.info(
+      `State restored: ${this.state.status}, ${formatMissionTime(this.state.missionTime)}`
+    );
+    this.anomalies.rewindTo(this.state.missionTime);
+    this.scheduler?.rewindTo(this.getState());
+    const position = snapshot.position ?? null;
+    this.forEachObserver(({ observer }) => observer.onRestore?.(position));
+    this.notifyObservers();
+  }
+
+  // The attempts never change once rolled, so only the progress is copied.
+  private copyChecks(checks: IChecksInProgress | null): IChecksInProgress | null {
+    return checks ? { ...checks } : null;
+  }
+
+  rewind(seconds: number): void {
+    const targetTime = this.state.missionTime - seconds;
+    let target: IRocketSnapshot | undefined;
+    for (let i = this.flightHistory.length - 1; i >= 0; i--) {
+      if (this.flightHistory[i].state.missionTime <= targetTime + this.TIME_EPSILON) {
+        target = this.flightHistory[i];
+        break;
+      }
+    }
+
+    if (!target) {
+      const earliest = this.flightHistory.length > 0
+        ? this.flightHistory[0].state.missionTime
+        : this.state.missionTime;
+      throw new InvalidStateException(
+        `Cannot rewind ${seconds} s: flight history only reaches back to ${formatMissionTime(earliest)}`
+      );
+    }
+
+    this.logger.info(`Rewinding to ${formatMissionTime(target.state.missionTime)}`);
+    this.restoreSnapshot(target);
+  }
+
+  loadConfig(config: IRocketConfig): void {
+    if (this.state.status !== MissionStatus.PRE_LAUNCH) {
+      throw new InvalidStateException('Rocket can only be changed before pre-launch checks');
+    }
+    this.config = config;
+    this.stageFactory = new StageFactory(config);
+    this.guidance = new GuidanceFactory(config.guidance).createGuidance(this.guidanceSetting);
+    this.sensors.setModels(config.sensors);
+    this.logger.info(
+      `Rocket '${config.name}' selected: ${config.stages.length} stage(s), ` +
+      `target orbit ${config.mission.orbitAltitude} km`
+    );
+  }
+
+  // Pluggable checks replace the ones built from the rocket configuration.
+  setSystemChecks(checks: ISystemCheck[]): void {
+    this.systemChecks = checks;
+  }
+
+  // Starts the checks; their outcome is known once enough simulated time has
+  // passed for every attempt and retry wait.
   performPreLaunchChecks(): void {
     try {
       this.logger.info('Initiating pre-launch system checks...');
-      this.state.status = MissionStatus.CHECKS_IN_PROGRESS;
-      
-      // Simulate system checks with transient error handling
-      const systemChecks = [
-        'Flight computer',
-        'Navigation system',
-        'Fuel tanks',
-        'Engine systems',
-        'Communication array'
-      ];
-
-      systemChecks.forEach(system => {
-        // Simulate potential transient errors
-        if (Math.random() < 0.1) { // 10% chance of transient error
-          this.logger.warn(`${system}: Transient error detected. Retrying...`);
-          // Retry logic
-          this.logger.info(`${system}: Retry successful.`);
+
+      const runner = new CheckRunner(this.config.preLaunch.retryPolicy, this.random, this.logger);
+      const checks = this.systemChecks ??
+        this.config.preLaunch.checks.map(check => new ConfiguredSystemCheck(check));
+      const attempts: ICheckAttempt[] = [];
+      let outcome = CheckOutcome.PASSED;
+      let failedCheck: string | null = null;
+      let duration = 0;
+
+      for (const check of checks) {
+        const report = runner.run(check, duration);
+        attempts.push(...report.attempts);
+        duration += report.elapsed;
+        if (report.outcome !== CheckOutcome.PASSED) {
+          outcome = report.outcome;
+          failedCheck = check.getName();
+          break;
         }
-        this.logger.info(`${system}: OK`);
-      });
+      }
 
-      this.state.status = MissionStatus.READY_TO_LAUNCH;
-      this.logger.info("All systems are 'Go' for launch.");
+      this.checks = { attempts, played: 0, outcome, failedCheck, duration, elapsed: 0 };
+      this.state.status = MissionStatus.CHECKS_IN_PROGRESS;
       this.notifyObservers();
+      this.updateChecks(0);
     } catch (error) {
       this.handleError(error, 'Pre-launch checks failed');
       throw error;
     }
   }
 
+  // Reports the attempts that finish within the next `timeStep` seconds and
+  // settles the outcome after the last one. Returns the seconds actually
+  // spent.
+  private updateChecks(timeStep: number): number {
+    const checks = this.checks!;
+    const from = checks.elapsed;
+    const to = Math.min(from + timeStep, checks.duration);
+    const runner = new CheckRunner(this.config.preLaunch.retryPolicy, this.random, this.logger);
+
+    while (checks.played < checks.attempts.length &&
+           checks.attempts[checks.played].endsAt <= to + this.TIME_EPSILON) {
+      const attempt = checks.attempts[checks.played++];
+      checks.elapsed = attempt.endsAt;
+      runner.report(attempt);
+      this.notifyObservers();
+    }
+
+    checks.elapsed = to;
+    if (to >= checks.duration - this.TIME_EPSILON) {
+      this.completeChecks(checks);
+    }
+    return to - from;
+  }
+
+  private completeChecks({ outcome, failedCheck, duration }: IChecksInProgress): void {
+    this.checks = null;
+    if (outcome === CheckOutcome.HARDWARE_FAULT) {
+      this.state.status = MissionStatus.SCRUBBED;
+      this.logger.error(`Launch scrubbed: ${failedCheck} hardware fault.`);
+    } else if (outcome === CheckOutcome.TRANSIENT_FAULT) {
+      this.state.status = MissionStatus.HOLD;
+      this.logger.warn(`Launch on hold: ${failedCheck} did not clear. Run the checks again.`);
+    } else {
+      this.state.status = MissionStatus.READY_TO_LAUNCH;
+      this.logger.info(`Checks completed in ${duration.toFixed(1)} s.`);
+      this.logger.info("All systems are 'Go' for launch.");
+    }
+    this.notifyObservers();
+    this.emitChecksCompleted(outcome, failedCheck, duration);
+  }
+
+  private emitChecksCompleted(outcome: CheckOutcome, failedCheck: string | null, elapsed: number): void {
+    this.emitEvent({
+      type: RocketEventType.CHECKS_COMPLETED,
+      missionTime: this.state.missionTime,
+      outcome,
+      failedCheck,
+      elapsed
+    });
+  }
+
   launch(): void {
     try {
       if (this.state.status !== MissionStatus.READY_TO_LAUNCH) {
@@ -100,10 +444,15 @@ export class RocketSystem {
         );
       }
 
-      this.logger.info('🚀 Launching rocket!');
-      this.state.stage = 1;
-      this.state.status = MissionStatus.IN_FLIGHT;
-      this.currentStageStrategy = StageFactory.createStage(1);
+      const { duration } = this.config.countdown;
+      if (duration <= 0) {
+        this.liftoff();
+        return;
+      }
+
+      this.state.missionTime = -duration;
+      this.state.status = MissionStatus.COUNTDOWN;
+      this.logger.info(`Countdown started at ${formatMissionTime(this.state.missionTime)}`);
       this.notifyObservers();
     } catch (error) {
       this.handleError(error, 'Launch failed');
@@ -111,16 +460,252 @@ export class RocketSystem {
     }
   }
 
+  holdCountdown(): void {
+    if (this.state.status !== MissionStatus.COUNTDOWN) {
+      throw new InvalidStateException('Cannot hold: countdown is not running');
+    }
+    this.state.status = MissionStatus.COUNTDOWN_HOLD;
+    this.logger.warn(`Countdown holding at ${formatMissionTime(this.state.missionTime)}`);
+    this.notifyObservers();
+  }
+
+  resumeCountdown(): void {
+    if (this.state.status !== MissionStatus.COUNTDOWN_HOLD) {
+      throw new InvalidStateException('Cannot resume: countdown is not holding');
+    }
+    this.state.status = MissionStatus.COUNTDOWN;
+    this.logger.info(`Countdown resumed at ${formatMissionTime(this.state.missionTime)}`);
+    this.notifyObservers();
+  }
+
+  // Sets the clock back to an earlier T-minus and holds there. Events between
+  // the new time and liftoff will fire again once the count resumes.
+  recycleCountdown(secondsBeforeLiftoff: number): void {
+    const { status, missionTime } = this.state;
+    if (status !== MissionStatus.COUNTDOWN && status !== MissionStatus.COUNTDOWN_HOLD) {
+      throw new InvalidStateException('Cannot recycle: countdown is not in progress');
+    }
+    if (secondsBeforeLiftoff <= -missionTime) {
+      throw new InvalidStateException(
+        `Cannot recycle to T-${secondsBeforeLiftoff}s: ` +
+        `the count is already at ${formatMissionTime(missionTime)}`
+      );
+    }
+
+    this.state.missionTime = -secondsBeforeLiftoff;
+    this.state.status = MissionStatus.COUNTDOWN_HOLD;
+    this.logger.warn(`Countdown recycled to ${formatMissionTime(this.state.missionTime)} and holding`);
+    this.notifyObservers();
+  }
+
+  private liftoff(): void {
+    this.logger.info('🚀 Liftoff!');
+    this.state.missionTime = 0;
+    this.state.stage = 1;
+    this.state.status = MissionStatus.IN_FLIGHT;
+    this.currentStageStrategy = this.stageFactory.createStage(1);
+    this.flightHistory = [];
+    this.notifyObservers();
+    this.emitEvent({ type: RocketEventType.LAUNCHED, missionTime: 0 });
+    this.recordFlightHistory();
+  }
+
+  setTimeStep(seconds: number): void {
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new SimulatorException('Time step must be a positive number of seconds');
+    }
+    this.timeStep = seconds;
+    this.logger.info(`Simulation time step set to ${seconds} s`);
+  }
+
+  getTimeStep(): number {
+    return this.timeStep;
+  }
+
+  setScheduler(scheduler: IFlightScheduler | null): void {
+    this.scheduler = scheduler;
+  }
+
+  // Takes effect from the next tick; the stage's pitch rate limit smooths
+  // the change.
+  setGuidance(setting: GuidanceSetting): void {
+    this.guidance = new GuidanceFactory(this.config.guidance).createGuidance(setting);
+    this.guidanceSetting = setting;
+    this.logger.info(`Guidance set to ${this.guidance.getName()}`);
+  }
+
+  getGuidance(): GuidanceSetting {
+    return this.guidanceSetting;
+  }
+
+  getGuidanceName(): string {
+    return this.guidance.getName();
+  }
+
+  // On the pad the limits of the first stage apply.
+  setThrottle(percent: number): void {
+    const { status } = this.state;
+    if (status === MissionStatus.ORBIT_ACHIEVED ||
+        status === MissionStatus.MISSION_FAILED ||
+        status === MissionStatus.ABORTED ||
+        status === MissionStatus.SCRUBBED) {
+      throw new InvalidStateException(`Cannot change throttle: mission status is ${status}`);
+    }
+    if (this.guidanceSetting.mode === GuidanceMode.PROGRAM &&
+        ProgramGuidance.controlsThrottle(this.guidanceSetting.program)) {
+      throw new InvalidStateException(
+        `Throttle is controlled by program '${this.guidanceSetting.program.name}'`
+      );
+    }
+
+    const stage = this.currentStageStrategy ?? this.stageFactory.createStage(1);
+    const { min, max } = stage.getThrottleLimits();
+    if (!Number.isFinite(percent) || percent < min || percent > max) {
+      throw new InvalidStateException(
+        `Throttle must be between ${min}% and ${max}% for stage ${stage.getStageName()}`
+      );
+    }
+    this.state.throttle = percent;
+    this.logger.info(`Throttle set to ${percent}%`);
+    this.notifyObservers();
+  }
+
+  // Anomalies hit the stage that is burning, or the first stage while the
+  // countdown is still running.
+  injectAnomaly(type: AnomalyType): IAnomaly {
+    const { status, stage, missionTime } = this.state;
+    if (status !== MissionStatus.COUNTDOWN &&
+        status !== MissionStatus.COUNTDOWN_HOLD &&
+        status !== MissionStatus.IN_FLIGHT) {
+      throw new InvalidStateException(`Cannot inject ${type}: mission status is ${status}`);
+    }
+
+    const stageNumber = Math.max(stage, 1);
+    const anomaly: IAnomaly = {
+      type,
+      stage: stageNumber,
+      injectedAt: missionTime,
+      readings: type === AnomalyType.SENSOR_DROPOUT ? this.getSensorReadings() : null
+    };
+    const stageStrategy = this.currentStageStrategy ?? this.stageFactory.createStage(1);
+    this.anomalies.add(anomaly, stageStrategy, this.state, stageNumber < this.stageFactory.getStageCount());
+
+    const description = ANOMALY_DESCRIPTIONS[type];
+    this.logger.warn(
+      `⚠️ ANOMALY at ${formatMissionTime(missionTime)}: ${type} on stage ${stageStrategy.getStageName()}: ${description}`
+    );
+    this.emitEvent({
+      type: RocketEventType.ANOMALY_INJECTED,
+      missionTime,
+      anomaly: type,
+      stage: stageNumber,
+      description
+    });
+    return anomaly;
+  }
+
+  removeAnomaly(anomaly: IAnomaly): void {
+    this.anomalies.remove(anomaly);
+    this.logger.info(`Anomaly ${anomaly.type} on stage ${anomaly.stage} removed`);
+    this.notifyObservers();
+  }
+
+  getActiveAnomalies(): IAnomaly[] {
+    return this.anomalies.getActive(this.state);
+  }
+
+  // Freezes what the ground was last shown, noise and all.
+  private getSensorReadings(): ISensorReadings {
+    const { altitude, speed, velocity, horizontalVelocity, downrange } = this.telemetry;
+    return { altitude, speed, velocity, horizontalVelocity, downrange };
+  }
+
+  // The abort mode depends on the flight phase: on the pad the vehicle is
+  // safed, in first stage flight the crew module escapes, and once the upper
+  // stage is burning it is safer to press on to a lower orbit.
+  abort(): AbortMode {
+    try {
+      const { status, stage, abortMode } = this.state;
+      const onPad = status === MissionStatus.READY_TO_LAUNCH ||
+                    status === MissionStatus.HOLD ||
+                    status === MissionStatus.COUNTDOWN ||
+                    status === MissionStatus.COUNTDOWN_HOLD;
+
+      if (onPad) {
+        this.padAbort();
+      } else if (status === MissionStatus.IN_FLIGHT && abortMode === null) {
+        if (stage === 1) {
+          this.launchEscape();
+        } else {
+          this.abortToOrbit();
+        }
+      } else {
+        throw new InvalidStateException(`Cannot abort: mission status is ${status}`);
+      }
+
+      this.notifyObservers();
+      this.emitEvent({
+        type: RocketEventType.ABORTED,
+        missionTime: this.state.missionTime,
+        mode: this.state.abortMode!
+      });
+      return this.state.abortMode!;
+    } catch (error) {
+      this.handleError(error, 'Abort failed');
+      throw error;
+    }
+  }
+
+  private padAbort(): void {
+    this.state.abortMode = AbortMode.PAD_ABORT;
+    this.state.status = MissionStatus.ABORTED;
+    this.logger.warn('⚠️ PAD ABORT: Engines safed, propellant offload started, crew egress in progress.');
+  }
+
+  private launchEscape(): void {
+    this.state.abortMode = AbortMode.LAUNCH_ESCAPE;
+    this.state.status = MissionStatus.ABORTED;
+    this.currentStageStrategy = null;
+    this.recordFlightHistory();
+    this.logger.warn(
+      `⚠️ LAUNCH ESCAPE at ${formatMissionTime(this.state.missionTime)}: ` +
+      `crew module pulled clear at ${this.state.altitude.toFixed(1)} km, ` +
+      'descending under parachutes. Booster terminated.'
+    );
+  }
+
+  private abortToOrbit(): void {
+    this.state.abortMode = AbortMode.ABORT_TO_ORBIT;
+    this.logger.warn(
+      `⚠️ ABORT TO ORBIT at ${formatMissionTime(this.state.missionTime)}: ` +
+      `retargeting to a ${this.config.mission.abortOrbitAltitude} km safe orbit.`
+    );
+  }
+
   advanceTime(seconds: number): void {
     try {
-      if (this.state.status !== MissionStatus.IN_FLIGHT) {
-        throw new InvalidStateException('Rocket is not in flight');
+      if (!this.isAdvancing()) {
+        throw new InvalidStateException('Rocket is not in flight, counting down or running checks');
       }
 
-      for (let i = 0; i < seconds; i++) {
-        if (!this.updateFlightParameters()) {
+      // A countdown that reaches T-0 carries on into the flight. Scheduled
+      // commands run between steps and may hold, abort or end the run. The
+      // checks stop at their outcome, as the countdown needs a command.
+      let remaining = seconds;
+      while (remaining > this.TIME_EPSILON && this.isAdvancing()) {
+        if (this.state.status === MissionStatus.CHECKS_IN_PROGRESS) {
+          remaining -= this.updateChecks(remaining);
+          continue;
+        }
+        const step = Math.min(this.timeStep, remaining, this.timeToNextTrigger());
+        const elapsed = this.state.status === MissionStatus.COUNTDOWN
+          ? this.updateCountdown(step)
+          : this.updateFlightParameters(step);
+        if (elapsed === null) {
           break;
         }
+        remaining -= elapsed;
+        this.scheduler?.onTick(this.getState());
       }
     } catch (error) {
       this.handleError(error, 'Flight simulation error');
@@ -128,61 +713,348 @@ export class RocketSystem {
     }
   }
 
-  private updateFlightParameters(): boolean {
+  private isAdvancing(): boolean {
+    return this.state.status === MissionStatus.CHECKS_IN_PROGRESS ||
+           this.state.status === MissionStatus.COUNTDOWN ||
+           this.state.status === MissionStatus.IN_FLIGHT;
+  }
+
+  private timeToNextTrigger(): number {
+    const now = this.state.missionTime;
+    const next = this.scheduler?.getNextTriggerTime(now + this.TIME_EPSILON) ?? null;
+    return next === null ? Infinity : next - now;
+  }
+
+  // Counts down by up to `timeStep` seconds, stopping exactly at T-0 so that
+  // liftoff happens on time. Returns the seconds actually counted.
+  private updateCountdown(timeStep: number): number {
+    const from = this.state.missionTime;
+    const to = Math.min(from + timeStep, 0);
+
+    this.config.countdown.events
+      .filter(event => -event.at > from && -event.at <= to)
+      .sort((a, b) => b.at - a.at)
+      .forEach(event => {
+        this.state.missionTime = -event.at;
+        this.logger.info(`${formatMissionTime(-event.at)}: ${event.name}`);
+        this.emitEvent({
+          type: RocketEventType.COUNTDOWN_MILESTONE,
+          missionTime: -event.at,
+          milestone: event
+        });
+      });
+
+    this.state.missionTime = to;
+    if (to >= 0) {
+      this.liftoff();
+    } else {
+      this.notifyObservers();
+    }
+    return to - from;
+  }
+
+  // Advances the flight by up to `timeStep` seconds. The step is cut short at
+  // the moment an orbit, separation or fuel-exhaustion event happens, so those
+  // are handled exactly when they occur. Returns the seconds actually
+  // simulated, or null once the flight has ended.
+  private updateFlightParameters(timeStep: number): number | null {
     if (!this.currentStageStrategy) {
       this.logger.error('No stage strategy available');
-      return false;
+      return null;
     }
 
-    // Update fuel
-    this.state.fuel -= this.currentStageStrategy.getFuelConsumptionRate();
-    
-    // Check for fuel exhaustion
-    if (this.state.fuel <= 0) {
-      this.state.fuel = 0;
-      this.missionFailed('Insufficient fuel');
-      return false;
-    }
+    const stage = this.currentStageStrategy;
+    const elapsed = this.findEventTime(stage, timeStep);
+    const previous = this.state;
+    this.state = this.integrate(this.state, stage, elapsed);
+    this.clearAnomalies(previous, 'sensors recovered');
 
-    // Update altitude and speed
-    this.state.altitude += this.currentStageStrategy.getAltitudeIncrement();
-    this.state.speed += this.currentStageStrategy.getSpeedIncrement();
+    if (this.hasImpacted(previous, this.state)) {
+      this.missionFailed('ground impact', null);
+      this.recordFlightHistory();
+      return null;
+    }
 
-    // Check for orbit achievement
-    if (this.state.altitude >= this.ORBIT_ALTITUDE && 
-        this.state.fuel >= this.MIN_FUEL_FOR_ORBIT) {
-      this.achieveOrbit();
-      return false;
+    // Engine cutoff once the vehicle is going fast enough sideways to stay up
+    if (this.hasReachedOrbitalVelocity(this.state) || this.isEscaping(this.state)) {
+      this.completeAscent();
+      this.recordFlightHistory();
+      return null;
     }
 
     // Check for stage separation
-    if (this.currentStageStrategy.shouldSeparate(this.state.fuel)) {
+    if (stage.shouldSeparate(this.state.fuel) && this.anomalies.blocksSeparation(this.state)) {
+      // The next stage cannot light with the spent one still attached
+      this.missionFailed(`stage ${stage.getStageName()} failing to separate`, null);
+      this.recordFlightHistory();
+      return null;
+    } else if (stage.shouldSeparate(this.state.fuel)) {
       this.separateStage();
+    } else if (this.state.fuel <= 0 || this.anomalies.getEngineFactor(stage, this.state) === 0) {
+      // Out of propellant or engines: the trajectory is whatever it is now
+      this.state.fuel = Math.max(this.state.fuel, 0);
+      this.completeAscent();
+      this.recordFlightHistory();
+      return null;
     }
 
+    this.recordFlightHistory();
     this.notifyObservers();
-    return true;
+    return elapsed;
+  }
+
+  private clearAnomalies(previous: RocketState, reason: string): void {
+    this.anomalies.getCleared(previous, this.state).forEach(anomaly => {
+      this.logger.info(
+        `${formatMissionTime(this.state.missionTime)}: ${anomaly.type} on stage ${anomaly.stage} cleared (${reason})`
+      );
+      this.emitEvent({
+        type: RocketEventType.ANOMALY_CLEARED,
+        missionTime: this.state.missionTime,
+        anomaly: anomaly.type,
+        stage: anomaly.stage,
+        reason
+      });
+    });
+  }
+
+  // Keeps a rolling window of per-step snapshots for rewind. After a rewind
+  // the entries ahead of the current time are replaced as the flight re-runs.
+  private recordFlightHistory(): void {
+    const now = this.state.missionTime;
+    while (this.flightHistory.length > 0 &&
+           this.flightHistory[this.flightHistory.length - 1].state.missionTime >= now - this.TIME_EPSILON) {
+      this.flightHistory.pop();
+    }
+    this.flightHistory.push(this.createSnapshot());
+
+    while (this.flightHistory[0].state.missionTime < now - this.REWIND_WINDOW) {
+      this.flightHistory.shift();
+    }
+  }
+
+  // Bisects the step for the earliest time at which a flight event fires.
+  private findEventTime(stage: IStageStrategy, timeStep: number): number {
+    const eventOccurs = (dt: number): boolean => {
+      const next = this.integrate(this.state, stage, dt);
+      return this.hasReachedOrbitalVelocity(next) ||
+             this.isEscaping(next) ||
+             this.hasImpacted(this.state, next) ||
+             stage.shouldSeparate(next.fuel) ||
+             next.fuel <= 0;
+    };
+
+    if (!eventOccurs(timeStep)) {
+      return timeStep;
+    }
+
+    let low = 0;
+    let high = timeStep;
+    while (high - low > this.EVENT_TIME_TOLERANCE) {
+      const mid = (low + high) / 2;
+      if (eventOccurs(mid)) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    this.logger.debug(`Flight event within step: step shortened from ${timeStep} s to ${high.toFixed(4)} s`);
+    return high;
+  }
+
+  private static orbitOf(state: IRocketState): IOrbitalElements {
+    return orbitalElements(state.altitude * 1000, state.velocity, state.horizontalVelocity);
+  }
+
+  // Horizontal speed is what keeps a vehicle up; altitude alone does not.
+  private hasReachedOrbitalVelocity(state: RocketState): boolean {
+    return state.altitude > 0 &&
+           state.horizontalVelocity >= circularVelocityAt(state.altitude * 1000);
+  }
+
+  private isEscaping(state: RocketState): boolean {
+    return RocketSystem.orbitOf(state).specificEnergy >= 0;
+  }
+
+  private hasImpacted(from: RocketState, to: RocketState): boolean {
+    return from.altitude > 0 && to.altitude <= 0;
+  }
+
+  private getTargetAltitude(state: RocketState): number {
+    const { orbitAltitude, abortOrbitAltitude } = this.config.mission;
+    return state.abortMode === AbortMode.ABORT_TO_ORBIT ? abortOrbitAltitude : orbitAltitude;
+  }
+
+  // Pure integration step: returns the state `timeStep` seconds later without
+  // touching the current one.
+  private integrate(from: RocketState, stage: IStageStrategy, timeStep: number): RocketState {
+    const next = from.clone();
+
+    // Burn propellant at the throttled rate; the engine only produces thrust
+    // for as long as it lasts. A leak drains the tank first; engines that
+    // are out neither burn nor push.
+    next.throttle = stage.limitThrottle(this.guidance.getThrottle?.(from) ?? from.throttle);
+    const throttle = next.throttle / 100 * this.anomalies.getEngineFactor(stage, from);
+    const leaked = Math.min(
+      this.anomalies.getLeakRate(from) / 100 * stage.getPropellantMass() * timeStep,
+      (from.fuel / 100) * stage.getPropellantMass()
+    );
+    const fullBurn = stage.getFuelConsumptionRate() * throttle * timeStep;
+    const propellant = (from.fuel / 100) * stage.getPropellantMass() - leaked;
+    const burned = Math.min(fullBurn, propellant);
+    const burnFraction = burned > 0 ? burned / fullBurn : 0;
+    next.fuel = ((propellant - burned) / stage.getPropellantMass()) * 100;
+
+    // Thrust along the pitch angle, drag against the direction of travel
+    const altitude = from.altitude * 1000; // m
+    const radius = EARTH_RADIUS + altitude;
+    const mass = this.getVehicleMass(stage, from);
+    const thrust = stage.getThrust() * throttle * burnFraction;
+    const commandedPitch = this.getCommandedPitch(from, thrust / mass);
+    const maxPitchChange = stage.getMaxPitchRate() * timeStep;
+    next.pitch = from.pitch + Math.min(Math.max(commandedPitch - from.pitch, -maxPitchChange), maxPitchChange);
+    const pitch = next.pitch * Math.PI / 180;
+
+    const speed = Math.hypot(from.velocity, from.horizontalVelocity);
+    const drag = dragForce(speed, altitude, stage.getDragCoefficient(), stage.getReferenceArea());
+    const dragShare = speed > 0 ? drag / speed : 0;
+
+    // Equations of motion over a round Earth: the horizontal speed lifts the
+    // vehicle as it curves around, and climbing bleeds some of it off.
+    const verticalAcceleration =
+      (thrust * Math.cos(pitch) - dragShare * from.velocity) / mass -
+      gravityAt(altitude) +
+      from.horizontalVelocity * from.horizontalVelocity / radius;
+    const horizontalAcceleration =
+      (thrust * Math.sin(pitch) - dragShare * from.horizontalVelocity) / mass -
+      from.velocity * from.horizontalVelocity / radius;
+
+    // Semi-implicit Euler: velocities first, then position
+    next.velocity += verticalAcceleration * timeStep;
+    next.horizontalVelocity += horizontalAcceleration * timeStep;
+    let newAltitude = altitude + next.velocity * timeStep;
+    if (newAltitude <= 0) {
+      // Either still on the pad with thrust below weight, or back on the ground
+      newAltitude = 0;
+      next.velocity = 0;
+      next.horizontalVelocity = 0;
+    }
+    next.downrange += (next.horizontalVelocity * timeStep * EARTH_RADIUS / radius) / 1000;
+    next.altitude = newAltitude / 1000;
+    next.speed = metersPerSecondToKmh(Math.hypot(next.velocity, next.horizontalVelocity));
+    next.missionTime += timeStep;
+    return next;
+  }
+
+  // A drifting platform only misleads the automatic modes; a pitch the crew
+  // holds by hand is flown as commanded.
+  private getCommandedPitch(state: RocketState, thrustAcceleration: number): number {
+    const pitch = this.guidance.getPitch(state, thrustAcceleration, this.getTargetAltitude(state));
+    if (this.guidanceSetting.mode === GuidanceMode.MANUAL) {
+      return pitch;
+    }
+    return Math.min(Math.max(pitch + this.anomalies.getPitchError(state), 0), 180);
+  }
+
+  // Current stage plus everything stacked above it, and the payload.
+  private getVehicleMass(stage: IStageStrategy, state: RocketState): number {
+    let mass = this.config.payloadMass + stage.getDryMass() +
+               (state.fuel / 100) * stage.getPropellantMass();
+
+    for (let next = state.stage + 1; next <= this.stageFactory.getStageCount(); next++) {
+      const upperStage = this.stageFactory.createStage(next);
+      mass += upperStage.getDryMass() + upperStage.getPropellantMass();
+    }
+    return mass;
   }
 
   private separateStage(): void {
     this.logger.info(
       `Stage ${this.currentStageStrategy!.getStageName()} complete. Separating stage.`
     );
+    const attached = this.state.clone();
     this.state.stage++;
-    this.currentStageStrategy = StageFactory.createStage(this.state.stage);
+    this.state.fuel = 100;
+    this.currentStageStrategy = this.stageFactory.createStage(this.state.stage);
+    this.state.throttle = this.currentStageStrategy.limitThrottle(this.state.throttle);
     this.logger.info(`Entering Stage ${this.currentStageStrategy.getStageName()}.`);
+    this.emitEvent({
+      type: RocketEventType.STAGE_SEPARATED,
+      missionTime: this.state.missionTime,
+      separatedStage: this.state.stage - 1,
+      separatedFuel: attached.fuel,
+      nextStage: this.state.stage,
+      altitude: this.state.altitude
+    });
+    this.clearAnomalies(attached, `stage ${attached.stage} jettisoned`);
+  }
+
+  // Engines are off for good: the orbit through the current point decides
+  // whether the mission made it.
+  private completeAscent(): void {
+    const elements = RocketSystem.orbitOf(this.state);
+    const trajectory = classifyTrajectory(elements);
+    this.logger.info(
+      `Engine cutoff at ${formatMissionTime(this.state.missionTime)}: ` +
+      `${this.state.altitude.toFixed(1)} km, ${this.state.speed.toFixed(0)} km/h`
+    );
+
+    switch (trajectory) {
+      case TrajectoryType.ORBIT:
+        this.achieveOrbit(elements);
+        break;
+      case TrajectoryType.ESCAPE:
+        this.missionFailed('an escape trajectory: the vehicle is leaving Earth', trajectory);
+        break;
+      case TrajectoryType.REENTRY:
+        this.missionFailed(
+          `re-entry: periapsis ${elements.periapsis.toFixed(1)} km is inside the atmosphere`,
+          trajectory
+        );
+        break;
+      case TrajectoryType.SUBORBITAL:
+        this.missionFailed(
+          `a suborbital trajectory: apoapsis ${elements.apoapsis.toFixed(1)} km, ` +
+          'but the path comes back down to the surface',
+          trajectory
+        );
+        break;
+    }
   }
 
-  private achieveOrbit(): void {
+  private achieveOrbit(elements: IOrbitalElements): void {
     this.state.status = MissionStatus.ORBIT_ACHIEVED;
-    this.logger.info('🎉 Orbit achieved! Mission Successful.');
+    const orbit = `${elements.apoapsis.toFixed(1)} x ${elements.periapsis.toFixed(1)} km`;
+    if (this.state.abortMode === AbortMode.ABORT_TO_ORBIT) {
+      this.logger.warn(
+        `Abort-to-orbit complete: safe ${orbit} orbit reached. ` +
+        'Primary mission objectives lost.'
+      );
+    } else {
+      this.logger.info(`🎉 Orbit achieved (${orbit})! Mission Successful.`);
+    }
     this.notifyObservers();
+    this.emitEvent({
+      type: RocketEventType.ORBIT_ACHIEVED,
+      missionTime: this.state.missionTime,
+      altitude: this.state.altitude,
+      speed: this.state.speed,
+      apoapsis: elements.apoapsis,
+      periapsis: elements.periapsis,
+      abortToOrbit: this.state.abortMode === AbortMode.ABORT_TO_ORBIT
+    });
   }
 
-  private missionFailed(reason: string): void {
+  private missionFailed(reason: string, trajectory: TrajectoryType | null): void {
     this.state.status = MissionStatus.MISSION_FAILED;
     this.logger.error(`❌ Mission Failed due to ${reason}.`);
     this.notifyObservers();
+    this.emitEvent({
+      type: RocketEventType.MISSION_FAILED,
+      missionTime: this.state.missionTime,
+      reason,
+      trajectory
+    });
   }
 
   private handleError(error: unknown, context: string): void {
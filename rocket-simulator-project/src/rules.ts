@@ -0,0 +1,339 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { InvalidFlightRulesException, SimulatorException } from './exceptions';
+import { formatMissionTime } from './format';
+import { CommandRegistry } from './registry';
+import { IRocketObserver } from './rocketSystem';
+import { CONDITION_FIELDS } from './scheduler';
+import { ComparisonOperator, EXPECTABLE_FIELDS, compareValues } from './script';
+import { ILogger, IRocketState, LogLevel, MissionStatus, RocketEvent, RocketEventType } from './types';
+
+// ============================================================================
+// FLIGHT RULES (Mission Monitors)
+// ============================================================================
+
+export interface IRuleCondition {
+  field: string; // one of CONDITION_FIELDS
+  operator: ComparisonOperator;
+  value: number;
+}
+
+export interface IFlightRule {
+  name: string;
+  message: string | null;
+  on: RocketEventType | null; // checked when this event happens instead of on every update
+  conditions: IRuleCondition[]; // all must hold
+  level: LogLevel.WARN | LogLevel.ERROR;
+  command: string | null; // run when the rule is violated, as with "at" and "when"
+}
+
+export interface IFlightRuleStatus {
+  rule: IFlightRule;
+  enabled: boolean;
+  violations: number;
+  lastViolatedAt: number | null; // mission time
+}
+
+// A rule as written in a rules file.
+export interface IFlightRuleEntry {
+  name: string;
+  message?: string;
+  on?: string;
+  when: string[];
+  level: string;
+  command?: string;
+}
+
+// A rule set as kept in a saved session: the rules in file form with their
+// counters, and which update rules were still violated.
+export interface IFlightRuleSession {
+  source: string | null;
+  rules: (IFlightRuleEntry & Omit<IFlightRuleStatus, 'rule'>)[];
+  violated: string[];
+}
+
+const CONDITION_PATTERN = /^(\w+)\s*(==|!=|<=|>=|<|>)\s*(\S+)$/;
+const RULE_LEVELS: { [level: string]: LogLevel.WARN | LogLevel.ERROR } = {
+  warn: LogLevel.WARN,
+  error: LogLevel.ERROR
+};
+
+export function formatCondition(condition: IRuleCondition): string {
+  return `${condition.field} ${condition.operator} ${condition.value}`;
+}
+
+export function formatRule(rule: IFlightRule): string {
+  const trigger = rule.on ? `on ${rule.on} if ` : 'while ';
+  const action = rule.command ? ` then ${rule.command}` : '';
+  return `${trigger}${rule.conditions.map(formatCondition).join(' and ')}${action}`;
+}
+
+// ============================================================================
+// FLIGHT RULE FILES (Loader)
+// ============================================================================
+
+type RawObject = { [key: string]: unknown };
+
+export class FlightRuleLoader {
+  static load(filePath: string): IFlightRule[] {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new SimulatorException(`Cannot read flight rules: ${filePath}`);
+    }
+
+    let raw: unknown;
+    try {
+      const extension = path.extname(filePath).toLowerCase();
+      raw = extension === '.yaml' || extension === '.yml'
+        ? parseYaml(contents)
+        : JSON.parse(contents);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown parse error';
+      throw new SimulatorException(`Cannot parse flight rules ${filePath}: ${reason}`);
+    }
+
+    return FlightRuleLoader.validate(raw);
+  }
+
+  static toEntry(rule: IFlightRule): IFlightRuleEntry {
+    return {
+      name: rule.name,
+      message: rule.message ?? undefined,
+      on: rule.on ?? undefined,
+      when: rule.conditions.map(formatCondition),
+      level: rule.level === LogLevel.ERROR ? 'error' : 'warn',
+      command: rule.command ?? undefined
+    };
+  }
+
+  static validate(raw: unknown): IFlightRule[] {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new InvalidFlightRulesException('(root)', 'must be an object');
+    }
+    const root = raw as RawObject;
+    if (!Array.isArray(root.rules)) {
+      throw new InvalidFlightRulesException('rules', 'must be a list');
+    }
+
+    const rules = root.rules.map((entry, index) => FlightRuleLoader.validateRule(entry, `rules[${index}]`));
+    rules.forEach((rule, index) => {
+      if (rules.findIndex(other => other.name === rule.name) !== index) {
+        throw new InvalidFlightRulesException(`rules[${index}].name`, `"${rule.name}" is used twice`);
+      }
+    });
+    return rules;
+  }
+
+  private static validateRule(raw: unknown, field: string): IFlightRule {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new InvalidFlightRulesException(field, 'must be an object');
+    }
+    const entry = raw as RawObject;
+
+    const name = FlightRuleLoader.optionalString(entry, 'name', field);
+    if (name === null || /\s/.test(name)) {
+      throw new InvalidFlightRulesException(`${field}.name`, 'must be a single word such as max-q-overspeed');
+    }
+
+    const on = FlightRuleLoader.optionalString(entry, 'on', field);
+    const events = Object.values(RocketEventType) as string[];
+    if (on !== null && !events.includes(on)) {
+      throw new InvalidFlightRulesException(`${field}.on`, `must be one of ${events.join(', ')} (got "${on}")`);
+    }
+
+    const level = FlightRuleLoader.optionalString(entry, 'level', field) ?? 'warn';
+    if (!RULE_LEVELS[level]) {
+      throw new InvalidFlightRulesException(`${field}.level`, `must be warn or error (got "${level}")`);
+    }
+
+    if (!Array.isArray(entry.when) || entry.when.length === 0) {
+      throw new InvalidFlightRulesException(`${field}.when`, 'must be a non-empty list of conditions');
+    }
+    const conditions = entry.when.map((condition, index) =>
+      FlightRuleLoader.parseCondition(condition, `${field}.when[${index}]`)
+    );
+
+    return {
+      name,
+      message: FlightRuleLoader.optionalString(entry, 'message', field),
+      on: on as RocketEventType | null,
+      conditions,
+      level: RULE_LEVELS[level],
+      command: FlightRuleLoader.optionalString(entry, 'command', field)
+    };
+  }
+
+  // "speed > 2500", on the same fields as "when" and "expect".
+  private static parseCondition(raw: unknown, field: string): IRuleCondition {
+    const match = typeof raw === 'string' ? CONDITION_PATTERN.exec(raw.trim()) : null;
+    if (!match) {
+      throw new InvalidFlightRulesException(field, 'must read "<field> <op> <value>", e.g. "speed > 2500"');
+    }
+    const [, name, operator, text] = match;
+    if (!CONDITION_FIELDS.includes(name)) {
+      throw new InvalidFlightRulesException(field, `must test one of ${CONDITION_FIELDS.join(', ')} (got "${name}")`);
+    }
+    const value = Number(text);
+    if (!Number.isFinite(value)) {
+      throw new InvalidFlightRulesException(field, `must compare with a number (got "${text}")`);
+    }
+    return { field: name, operator: operator as ComparisonOperator, value };
+  }
+
+  private static optionalString(source: RawObject, key: string, parent: string): string | null {
+    const value = source[key];
+    if (value === undefined) {
+      return null;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new InvalidFlightRulesException(`${parent}.${key}`, 'must be a non-empty string');
+    }
+    return value.trim();
+  }
+}
+
+// ============================================================================
+// FLIGHT RULE MONITOR (Observer Implementation)
+// ============================================================================
+
+// Watches the telemetry, as a flight controller would. A rule checked on
+// every update reports once when it starts being violated and again only
+// after it has cleared; a rule bound to an event is checked each time that
+// event happens.
+export class FlightRuleMonitor implements IRocketObserver {
+  private rules: IFlightRuleStatus[] = [];
+  private violated = new Set<string>(); // names of update rules currently violated
+  private source: string | null = null;
+
+  constructor(private registry: CommandRegistry, private logger: ILogger) {}
+
+  // Replaces the rule set.
+  load(filePath: string): void {
+    const rules = FlightRuleLoader.load(filePath);
+    this.checkCommands(rules);
+
+    this.rules = rules.map(rule => ({ rule, enabled: true, violations: 0, lastViolatedAt: null }));
+    this.violated.clear();
+    this.source = filePath;
+    this.logger.info(`Loaded ${rules.length} flight rule(s) from ${filePath}`);
+  }
+
+  getSession(): IFlightRuleSession {
+    return {
+      source: this.source,
+      rules: this.rules.map(({ rule, enabled, violations, lastViolatedAt }) => ({
+        ...FlightRuleLoader.toEntry(rule), enabled, violations, lastViolatedAt
+      })),
+      violated: [...this.violated]
+    };
+  }
+
+  // Replaces the rule set with one from a saved session, counters included.
+  restore(session: IFlightRuleSession): void {
+    const rules = FlightRuleLoader.validate({ rules: session.rules });
+    this.checkCommands(rules);
+
+    this.rules = rules.map((rule, index) => {
+      const { enabled, violations, lastViolatedAt } = session.rules[index];
+      return { rule, enabled, violations, lastViolatedAt };
+    });
+    this.violated = new Set(session.violated);
+    this.source = session.source;
+  }
+
+  // Commands are checked up front, as for "at".
+  private checkCommands(rules: IFlightRule[]): void {
+    rules.forEach((rule, index) => {
+      if (rule.command === null) {
+        return;
+      }
+      const { definition } = this.registry.parse(rule.command);
+      if (!definition.schedulable) {
+        throw new InvalidFlightRulesException(`rules[${index}].command`, `cannot run ${definition.name}`);
+      }
+    });
+  }
+
+  getSource(): string | null {
+    return this.source;
+  }
+
+  getRules(): IFlightRuleStatus[] {
+    return this.rules.map(status => ({ ...status }));
+  }
+
+  // `name` may be "all".
+  setEnabled(name: string, enabled: boolean): void {
+    const targets = name === 'all' ? this.rules : this.rules.filter(status => status.rule.name === name);
+    if (targets.length === 0) {
+      throw new SimulatorException(`No flight rule named "${name}"`);
+    }
+    targets.forEach(status => {
+      status.enabled = enabled;
+      this.violated.delete(status.rule.name); // re-armed when enabled again
+    });
+    const label = name === 'all' ? `${targets.length} flight rule(s)` : `Flight rule "${name}"`;
+    this.logger.info(`${label} ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  onStateUpdate(state: IRocketState): void {
+    if (state.status !== MissionStatus.COUNTDOWN && state.status !== MissionStatus.IN_FLIGHT) {
+      return;
+    }
+    this.rules
+      .filter(status => status.enabled && status.rule.on === null)
+      .forEach(status => {
+        const holds = this.isViolated(status.rule, state);
+        if (!holds) {
+          this.violated.delete(status.rule.name);
+        } else if (!this.violated.has(status.rule.name)) {
+          this.violated.add(status.rule.name);
+          this.report(status, state);
+        }
+      });
+  }
+
+  onEvent(event: RocketEvent, state: IRocketState): void {
+    this.rules
+      .filter(status => status.enabled && status.rule.on === event.type && this.isViolated(status.rule, state))
+      .forEach(status => this.report(status, state));
+  }
+
+  private isViolated(rule: IFlightRule, state: IRocketState): boolean {
+    return rule.conditions.every(condition =>
+      compareValues(state[EXPECTABLE_FIELDS[condition.field]], condition.operator, condition.value)
+    );
+  }
+
+  private report(status: IFlightRuleStatus, state: IRocketState): void {
+    const { rule } = status;
+    status.violations++;
+    status.lastViolatedAt = state.missionTime;
+
+    const readings = rule.conditions.map(condition => {
+      const value = state[EXPECTABLE_FIELDS[condition.field]] as number;
+      return `${condition.field} ${Number.isInteger(value) ? value : value.toFixed(1)} ${condition.operator} ${condition.value}`;
+    });
+    const message = `⚠️ Flight rule "${rule.name}" violated at ${formatMissionTime(state.missionTime)}: ` +
+      `${rule.message ?? 'limits exceeded'} (${readings.join(', ')})`;
+    if (rule.level === LogLevel.ERROR) {
+      this.logger.error(message);
+    } else {
+      this.logger.warn(message);
+    }
+
+    if (rule.command === null) {
+      return;
+    }
+    this.logger.info(`Flight rule "${rule.name}": ${rule.command}`);
+    try {
+      this.registry.execute(rule.command);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      this.logger.error(`Flight rule "${rule.name}" command "${rule.command}" failed: ${reason}`);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { InvalidStateException, SimulatorException } from './exceptions';
+import { formatMissionTime } from './format';
+import { CommandRegistry } from './registry';
+import { ComparisonOperator, EXPECTABLE_FIELDS, compareValues } from './script';
+import { IFlightScheduler, ILogger, IRocketState, MissionStatus } from './types';
+
+// ============================================================================
+// COMMAND SCHEDULER (Timed and Conditional Commands)
+// ============================================================================
+
+// Fields a `when` condition can watch: the numeric ones scripts can expect on.
+export const CONDITION_FIELDS = Object.keys(EXPECTABLE_FIELDS).filter(field => field !== 'status');
+
+export type ScheduleTrigger =
+  | { kind: 'time'; time: number }
+  | { kind: 'condition'; field: string; operator: ComparisonOperator; value: number };
+
+export enum ScheduleStatus {
+  PENDING = 'PENDING',
+  DONE = 'DONE',
+  FAILED = 'FAILED'
+}
+
+export interface IScheduledCommand {
+  id: number;
+  trigger: ScheduleTrigger;
+  command: string;
+  status: ScheduleStatus;
+  firedAt: number | null; // mission time the trigger went off
+  failure: string | null; // why the command could not run
+}
+
+const TIME_EPSILON = 1e-9; // s
+
+// Mission time only means something once the countdown has started.
+export const BEFORE_COUNTDOWN = [
+  MissionStatus.PRE_LAUNCH,
+  MissionStatus.CHECKS_IN_PROGRESS,
+  MissionStatus.HOLD,
+  MissionStatus.SCRUBBED,
+  MissionStatus.READY_TO_LAUNCH
+];
+
+export function formatTrigger(trigger: ScheduleTrigger): string {
+  return trigger.kind === 'time'
+    ? `at ${formatMissionTime(trigger.time)}`
+    : `when ${trigger.field} ${trigger.operator} ${trigger.value}`;
+}
+
+// Each entry fires once, between simulation steps. A command that cannot
+// run when its trigger goes off is logged as an error and kept in the list
+// as FAILED so that `schedule` still shows it. Going back to before an entry
+// fired arms it again.
+export class CommandScheduler implements IFlightScheduler {
+  private entries: IScheduledCommand[] = [];
+  private nextId = 1;
+
+  constructor(private registry: CommandRegistry, private logger: ILogger) {}
+
+  // Validates the command now rather than at trigger time, when the only
+  // thing left to do about a typo would be to report it.
+  add(trigger: ScheduleTrigger, command: string, state: IRocketState): IScheduledCommand {
+    const { definition } = this.registry.parse(command);
+    if (!definition.schedulable) {
+      throw new SimulatorException(`${definition.name} cannot be scheduled`);
+    }
+    if (trigger.kind === 'time' && !BEFORE_COUNTDOWN.includes(state.status) &&
+        trigger.time < state.missionTime - TIME_EPSILON) {
+      throw new InvalidStateException(
+        `Cannot schedule for ${formatMissionTime(trigger.time)}: ` +
+        `mission time is already ${formatMissionTime(state.missionTime)}`
+      );
+    }
+
+    const entry: IScheduledCommand = {
+      id: this.nextId++,
+      trigger,
+      command: command.trim(),
+      status: ScheduleStatus.PENDING,
+      firedAt: null,
+      failure: null
+    };
+    this.entries.push(entry);
+    this.logger.info(`Scheduled #${entry.id} ${formatTrigger(trigger)}: ${entry.command}`);
+    return entry;
+  }
+
+  cancel(id: number): void {
+    const index = this.entries.findIndex(entry => entry.id === id);
+    if (index < 0 || this.entries[index].status !== ScheduleStatus.PENDING) {
+      throw new SimulatorException(`No pending scheduled command #${id}`);
+    }
+    const [entry] = this.entries.splice(index, 1);
+    this.logger.info(`Cancelled #${entry.id} ${formatTrigger(entry.trigger)}: ${entry.command}`);
+  }
+
+  // Returns how many were cancelled.
+  cancelAll(): number {
+    const pending = this.entries.filter(entry => entry.status === ScheduleStatus.PENDING);
+    this.entries = this.entries.filter(entry => entry.status !== ScheduleStatus.PENDING);
+    if (pending.length > 0) {
+      this.logger.info(`Cancelled ${pending.length} scheduled command(s)`);
+    }
+    return pending.length;
+  }
+
+  getEntries(): IScheduledCommand[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  // Replaces the schedule, e.g. with the one from a saved session.
+  restore(entries: IScheduledCommand[]): void {
+    this.entries = entries.map(entry => ({ ...entry }));
+    this.nextId = Math.max(0, ...entries.map(entry => entry.id)) + 1;
+  }
+
+  // Before the countdown nothing can have fired yet, so every entry is
+  // pending again.
+  rewindTo(state: IRocketState): void {
+    const beforeCountdown = BEFORE_COUNTDOWN.includes(state.status);
+    const rearmed = this.entries.filter(entry =>
+      entry.status !== ScheduleStatus.PENDING &&
+      (beforeCountdown || entry.firedAt! > state.missionTime + TIME_EPSILON)
+    );
+    rearmed.forEach(entry => {
+      entry.status = ScheduleStatus.PENDING;
+      entry.firedAt = null;
+      entry.failure = null;
+    });
+    if (rearmed.length > 0) {
+      const ids = rearmed.map(entry => `#${entry.id}`).join(', ');
+      this.logger.info(`Re-armed ${rearmed.length} scheduled command(s): ${ids}`);
+    }
+  }
+
+  getNextTriggerTime(time: number): number | null {
+    const times = this.entries
+      .filter(entry => entry.status === ScheduleStatus.PENDING)
+      .map(entry => entry.trigger)
+      .filter((trigger): trigger is { kind: 'time'; time: number } => trigger.kind === 'time')
+      .map(trigger => trigger.time)
+      .filter(triggerTime => triggerTime >= time);
+    return times.length > 0 ? Math.min(...times) : null;
+  }
+
+  // Entries are run in the order they were scheduled.
+  onTick(state: IRocketState): void {
+    const due = this.entries.filter(entry =>
+      entry.status === ScheduleStatus.PENDING && this.isTriggered(entry.trigger, state)
+    );
+    due.forEach(entry => this.fire(entry, state.missionTime));
+  }
+
+  private isTriggered(trigger: ScheduleTrigger, state: IRocketState): boolean {
+    if (trigger.kind === 'time') {
+      return state.missionTime >= trigger.time - TIME_EPSILON;
+    }
+    const actual = state[EXPECTABLE_FIELDS[trigger.field]];
+    return compareValues(actual, trigger.operator, trigger.value);
+  }
+
+  private fire(entry: IScheduledCommand, missionTime: number): void {
+    entry.firedAt = missionTime;
+    this.logger.info(
+      `${formatMissionTime(missionTime)}: scheduled #${entry.id} (${formatTrigger(entry.trigger)}): ${entry.command}`
+    );
+    try {
+      this.registry.execute(entry.command);
+      entry.status = ScheduleStatus.DONE;
+    } catch (error) {
+      entry.status = ScheduleStatus.FAILED;
+      entry.failure = error instanceof Error ? error.message : 'unknown error';
+      this.logger.error(
+        `Scheduled command #${entry.id} "${entry.command}" failed at ` +
+        `${formatMissionTime(missionTime)}: ${entry.failure}`
+      );
+    }
+  }
+}
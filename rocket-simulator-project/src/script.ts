@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import { ScriptException, SimulatorException } from './exceptions';
+import { IRocketState } from './types';
+
+// ============================================================================
+// SCRIPT RUNNER (Batch Mode)
+// ============================================================================
+
+export interface IScriptTarget {
+  processInput(input: string): boolean;
+  getState(): IRocketState;
+  getReport(): string; // the mission report as printed by "report"
+}
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+interface IExpectation {
+  field: string;
+  operator: ComparisonOperator;
+  expected: string | number;
+}
+
+export type ExpectableKey = 'status' | 'stage' | 'fuel' | 'altitude' | 'downrange' | 'speed' | 'throttle' | 'missionTime';
+
+// Script fields map onto the rocket state; `time` reads better than missionTime.
+export const EXPECTABLE_FIELDS: { [field: string]: ExpectableKey } = {
+  status: 'status',
+  stage: 'stage',
+  fuel: 'fuel',
+  altitude: 'altitude',
+  downrange: 'downrange',
+  speed: 'speed',
+  throttle: 'throttle',
+  time: 'missionTime'
+};
+
+export const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+
+const EXPECTATION_PATTERN = /^expect\s+(\w+)\s*(==|!=|<=|>=|<|>)\s*(.+)$/i;
+const REPORT_EXPECTATION_PATTERN = /^expect\s+report\s+(!?contains)\s+"(.*)"$/i;
+
+export function compareValues(
+  actual: string | number,
+  operator: ComparisonOperator,
+  expected: string | number
+): boolean {
+  switch (operator) {
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+}
+
+export interface IScriptResult {
+  passed: boolean;
+  commands: number;
+  assertions: number;
+}
+
+// Runs one command per line. Blank lines and lines starting with '#' are
+// skipped; `expect <field> <op> <value>` lines assert on the rocket state and
+// `expect report [!]contains "<text>"` on the mission report.
+// The run stops at the first failing command or assertion.
+export class ScriptRunner {
+  constructor(private target: IScriptTarget) {}
+
+  runFile(filePath: string): IScriptResult {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new SimulatorException(`Cannot read script file: ${filePath}`);
+    }
+    return this.run(contents.split(/\r?\n/), filePath);
+  }
+
+  run(lines: string[], source: string = 'script'): IScriptResult {
+    const result: IScriptResult = { passed: true, commands: 0, assertions: 0 };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      const location = `${source}:${i + 1}`;
+
+      if (line === '' || line.startsWith('#')) {
+        continue;
+      }
+      if (line.toLowerCase() === 'exit') {
+        break;
+      }
+
+      console.log(`\n> ${line}`);
+
+      if (/^expect\b/i.test(line)) {
+        result.assertions++;
+        const reportMatch = REPORT_EXPECTATION_PATTERN.exec(line);
+        const failure = reportMatch
+          ? this.checkReport(reportMatch[1].startsWith('!'), reportMatch[2])
+          : this.checkExpectation(this.parseExpectation(line, location));
+        if (failure) {
+          console.error(`${location}: Assertion failed: ${line} (${failure})`);
+          result.passed = false;
+          return result;
+        }
+        console.log(`Assertion passed: ${line}`);
+        continue;
+      }
+
+      result.commands++;
+      if (!this.target.processInput(line)) {
+        console.error(`${location}: Command failed: ${line}`);
+        result.passed = false;
+        return result;
+      }
+    }
+
+    return result;
+  }
+
+  private parseExpectation(line: string, location: string): IExpectation {
+    const match = EXPECTATION_PATTERN.exec(line);
+    if (!match) {
+      throw new ScriptException(location, `Malformed assertion: ${line}`);
+    }
+
+    const field = match[1].toLowerCase();
+    if (!(field in EXPECTABLE_FIELDS)) {
+      throw new ScriptException(
+        location,
+        `Unknown field '${match[1]}' (expected one of: ${Object.keys(EXPECTABLE_FIELDS).join(', ')})`
+      );
+    }
+
+    const operator = match[2] as ComparisonOperator;
+    const rawValue = match[3].trim();
+    const quoted = /^"(.*)"$/.exec(rawValue) || /^'(.*)'$/.exec(rawValue);
+    const expected = quoted ? quoted[1] : Number(rawValue);
+
+    if (typeof expected === 'number' && !Number.isFinite(expected)) {
+      throw new ScriptException(location, `Expected a number or a quoted string, got ${rawValue}`);
+    }
+    if (typeof expected === 'string' && operator !== '==' && operator !== '!=') {
+      throw new ScriptException(location, `Operator ${operator} only applies to numbers`);
+    }
+
+    return { field, operator, expected };
+  }
+
+  // Returns a description of the mismatch, or null if the expectation holds.
+  private checkExpectation(expectation: IExpectation): string | null {
+    const actual = this.target.getState()[EXPECTABLE_FIELDS[expectation.field]];
+    const holds = compareValues(actual, expectation.operator, expectation.expected);
+    return holds ? null : `actual ${expectation.field} is ${JSON.stringify(actual)}`;
+  }
+
+  private checkReport(negated: boolean, text: string): string | null {
+    const found = this.target.getReport().includes(text);
+    if (found === !negated) {
+      return null;
+    }
+    return negated ? 'the report lists it' : 'the report does not list it';
+  }
+}
@@ -0,0 +1,96 @@
+import { SeededRandom } from './random';
+import { IRandomSource, IRocketState, ISensorConfig, ISensorModel, SensorField } from './types';
+
+// ============================================================================
+// SENSORS (Telemetry Layer)
+// ============================================================================
+
+export const SENSOR_FIELDS: SensorField[] = [
+  'altitude', 'speed', 'velocity', 'horizontalVelocity', 'downrange', 'fuel', 'pitch'
+];
+
+export const SENSOR_UNITS: { [field in SensorField]: string } = {
+  altitude: 'km',
+  speed: 'km/h',
+  velocity: 'm/s',
+  horizontalVelocity: 'm/s',
+  downrange: 'km',
+  fuel: '%',
+  pitch: '°'
+};
+
+// Sensor noise draws from its own sequence, so turning noise on or off does
+// not change the outcome of the pre-launch checks for a given seed.
+const SENSOR_SEED_SALT = 0x5E4507;
+
+// Turns the true state into what the ground receives: Gaussian noise, then
+// quantization. A lost reading repeats the last one received, as a
+// sample-and-hold receiver would.
+export class SensorSuite {
+  private random: SeededRandom;
+  private lastReadings: { [field in SensorField]?: number } = {};
+
+  constructor(private models: ISensorConfig, seed: number) {
+    this.random = new SeededRandom(SensorSuite.deriveSeed(seed));
+  }
+
+  static deriveSeed(seed: number): number {
+    return (seed ^ SENSOR_SEED_SALT) >>> 0;
+  }
+
+  setModels(models: ISensorConfig): void {
+    this.models = models;
+  }
+
+  getModels(): ISensorConfig {
+    return this.models;
+  }
+
+  // Starts the noise sequence of a new simulation seed.
+  reseed(seed: number): void {
+    this.random = new SeededRandom(SensorSuite.deriveSeed(seed));
+    this.lastReadings = {};
+  }
+
+  restore(seed: number, state: number): void {
+    this.random = SeededRandom.restore(SensorSuite.deriveSeed(seed), state);
+    this.lastReadings = {};
+  }
+
+  getRandomState(): number {
+    return this.random.getState();
+  }
+
+  read(state: IRocketState): IRocketState {
+    const telemetry = { ...state };
+    SENSOR_FIELDS.forEach(field => {
+      const model = this.models[field];
+      if (model) {
+        telemetry[field] = this.measure(field, state[field], model);
+      }
+    });
+    return telemetry;
+  }
+
+  private measure(field: SensorField, value: number, model: ISensorModel): number {
+    // Every model draws the same amount each time to keep the sequence aligned
+    const lost = this.random.next() < model.dropoutRate;
+    const noisy = value + model.noise * gaussian(this.random);
+    const last = this.lastReadings[field];
+    if (lost && last !== undefined) {
+      return last;
+    }
+
+    const reading = model.resolution > 0
+      ? Math.round(noisy / model.resolution) * model.resolution
+      : noisy;
+    this.lastReadings[field] = reading;
+    return reading;
+  }
+}
+
+// Standard normal draw (Box-Muller).
+export function gaussian(random: IRandomSource): number {
+  const u = 1 - random.next(); // (0, 1], keeps log() finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random.next());
+}
@@ -0,0 +1,359 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { Duplex } from 'stream';
+import { SimulatorException } from './exceptions';
+import { ConsoleLogger } from './logger';
+import { IRocketObserver } from './rocketSystem';
+import { IScriptTarget } from './script';
+import { ILogEntry, ILogSink, IRocketState, RocketEvent } from './types';
+
+// ============================================================================
+// CONTROL SERVER (HTTP + WebSocket)
+// ============================================================================
+
+// REST:
+//   GET  /state     -> IRocketState
+//   POST /commands  {"command": "fast_forward 10"} -> { ok, state, log }
+//                   Content-Type must be application/json
+// WebSocket:
+//   GET  /stream    -> {"type": "state", state} and {"type": "event", event, state}
+// Clients are ground displays: every state is telemetry, not the truth.
+// Browsers are only let in from the allowed origins, and no client may run
+// a command that reads or writes files on the machine running the server.
+
+export interface IServerTarget extends IScriptTarget {
+  addObserver(observer: IRocketObserver): void;
+  getTelemetry(): IRocketState;
+  accessesFiles(input: string): boolean;
+}
+
+export interface ICommandResponse {
+  ok: boolean;
+  command: string;
+  state: IRocketState;
+  log: ILogEntry[]; // everything logged while the command ran
+}
+
+type StreamMessage =
+  | { type: 'state'; state: IRocketState }
+  | { type: 'event'; event: RocketEvent; state: IRocketState };
+
+const MAX_BODY_BYTES = 64 * 1024;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Collects log entries while a request is being handled.
+class LogCapture implements ILogSink {
+  private entries: ILogEntry[] | null = null;
+
+  write(entry: ILogEntry): void {
+    this.entries?.push(entry);
+  }
+
+  capture(action: () => void): ILogEntry[] {
+    this.entries = [];
+    try {
+      action();
+      return this.entries;
+    } finally {
+      this.entries = null;
+    }
+  }
+}
+
+export class SimulatorServer implements IRocketObserver {
+  private server: http.Server;
+  private clients = new Set<WebSocketConnection>();
+  private capture = new LogCapture();
+  private pendingState: IRocketState | null = null;
+
+  // `allowedOrigins` are the web pages that may call the server, e.g.
+  // http://localhost:8080. Requests without an Origin header are not from a
+  // browser and are always accepted.
+  constructor(private target: IServerTarget, logger: ConsoleLogger, private allowedOrigins: string[] = []) {
+    logger.addSink(this.capture);
+    target.addObserver(this);
+    this.server = http.createServer((request, response) => this.handleRequest(request, response));
+    this.server.on('upgrade', (request, socket) => this.handleUpgrade(request, socket));
+  }
+
+  listen(port: number, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  getAddress(): string {
+    const address = this.server.address();
+    return typeof address === 'object' && address
+      ? `http://${address.address}:${address.port}`
+      : String(address);
+  }
+
+  close(): void {
+    this.clients.forEach(client => client.close());
+    this.server.close();
+  }
+
+  // fast_forward produces thousands of updates in one go; clients get the
+  // latest state once the command has finished.
+  onStateUpdate(state: IRocketState): void {
+    if (this.clients.size === 0) {
+      return;
+    }
+    if (this.pendingState === null) {
+      setImmediate(() => this.flushState());
+    }
+    this.pendingState = state;
+  }
+
+  // Events are never coalesced.
+  onEvent(event: RocketEvent, state: IRocketState): void {
+    this.broadcast({ type: 'event', event, state });
+  }
+
+  private flushState(): void {
+    if (this.pendingState !== null) {
+      this.broadcast({ type: 'state', state: this.pendingState });
+      this.pendingState = null;
+    }
+  }
+
+  private broadcast(message: StreamMessage): void {
+    const text = JSON.stringify(message);
+    this.clients.forEach(client => client.send(text));
+  }
+
+  private isOriginAllowed(origin: string | undefined): boolean {
+    return origin === undefined || this.allowedOrigins.includes(origin);
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const { origin } = request.headers;
+    if (!this.isOriginAllowed(origin)) {
+      this.sendJson(response, 403, { error: `Origin not allowed: ${origin}` });
+      return;
+    }
+    if (origin !== undefined) {
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      response.setHeader('Vary', 'Origin');
+    }
+
+    const path = (request.url ?? '/').split('?')[0];
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+    } else if (path === '/state' && request.method === 'GET') {
+      this.sendJson(response, 200, this.target.getTelemetry());
+    } else if (path === '/commands' && request.method === 'POST') {
+      // Anything but JSON could be a form a web page posted without asking
+      const contentType = (request.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+      if (contentType !== 'application/json') {
+        this.sendJson(response, 415, { error: 'Content-Type must be application/json' });
+        request.resume();
+        return;
+      }
+      this.readBody(request)
+        .then(body => this.executeCommand(response, body))
+        .catch(error => this.sendError(response, 400, error));
+    } else if (path === '/state' || path === '/commands') {
+      this.sendJson(response, 405, { error: `${request.method} is not supported on ${path}` });
+    } else {
+      this.sendJson(response, 404, { error: `Not found: ${path}` });
+    }
+  }
+
+  private executeCommand(response: http.ServerResponse, body: string): void {
+    let command: unknown;
+    try {
+      command = (JSON.parse(body) as { command?: unknown }).command;
+    } catch (error) {
+      throw new SimulatorException('Request body must be JSON');
+    }
+    if (typeof command !== 'string' || command.trim() === '') {
+      throw new SimulatorException('Request body must have a "command" string');
+    }
+    if (this.target.accessesFiles(command)) {
+      this.sendJson(response, 403, { error: `Commands that read or write files are not available remotely: ${command}` });
+      return;
+    }
+
+    let ok = false;
+    const log = this.capture.capture(() => {
+      ok = this.target.processInput(command as string);
+    });
+    const result: ICommandResponse = { ok, command, state: this.target.getTelemetry(), log };
+    this.sendJson(response, ok ? 200 : 422, result);
+  }
+
+  private readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new SimulatorException(`Request body is larger than ${MAX_BODY_BYTES} bytes`));
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      request.on('error', reject);
+    });
+  }
+
+  private sendError(response: http.ServerResponse, status: number, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Request failed';
+    this.sendJson(response, status, { error: message });
+  }
+
+  private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+    if (response.headersSent) {
+      return;
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  private handleUpgrade(request: http.IncomingMessage, socket: Duplex): void {
+    const key = request.headers['sec-websocket-key'];
+    const path = (request.url ?? '/').split('?')[0];
+    if (path !== '/stream' || typeof key !== 'string' ||
+        request.headers.upgrade?.toLowerCase() !== 'websocket') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    if (!this.isOriginAllowed(request.headers.origin)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+
+    const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const client = new WebSocketConnection(socket, () => this.clients.delete(client));
+    this.clients.add(client);
+    client.send(JSON.stringify({ type: 'state', state: this.target.getTelemetry() }));
+  }
+}
+
+// ============================================================================
+// WEBSOCKET CONNECTION (RFC 6455, server push only)
+// ============================================================================
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xA;
+
+// Just enough of the protocol to stream text to clients: incoming frames are
+// only read for close and ping, and a client that announces a frame larger
+// than a request body is disconnected rather than buffered.
+class WebSocketConnection {
+  private buffer = Buffer.alloc(0);
+  private closed = false;
+
+  constructor(private socket: Duplex, private onClose: () => void) {
+    socket.on('data', (data: Buffer) => this.receive(data));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  send(text: string): void {
+    this.sendFrame(OPCODE_TEXT, Buffer.from(text, 'utf8'));
+  }
+
+  close(): void {
+    this.sendFrame(OPCODE_CLOSE, Buffer.alloc(0));
+    this.socket.end();
+    this.finish();
+  }
+
+  private sendFrame(opcode: number, payload: Buffer): void {
+    if (this.closed) {
+      return;
+    }
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private receive(data: Buffer): void {
+    if (this.closed) {
+      return;
+    }
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    // Client frames are always masked
+    while (this.buffer.length >= 2) {
+      const opcode = this.buffer[0] & 0x0F;
+      let length = this.buffer[1] & 0x7F;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) {
+          return;
+        }
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) {
+          return;
+        }
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_BODY_BYTES) {
+        this.close();
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) {
+        return;
+      }
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      if (opcode === OPCODE_CLOSE) {
+        this.close();
+        return;
+      }
+      if (opcode === OPCODE_PING) {
+        this.sendFrame(OPCODE_PONG, payload);
+      }
+    }
+  }
+
+  private finish(): void {
+    if (!this.closed) {
+      this.closed = true;
+      this.onClose();
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { SimulatorException } from "./exceptions";
-import { IStageStrategy } from "./types";
+import { massFlowRate } from "./physics";
+import { IRocketConfig, IStageConfig, IStageStrategy, IThrottleLimits } from "./types";
 
 
 // ============================================================================
@@ -7,67 +8,98 @@ import { IStageStrategy } from "./types";
 // ============================================================================
 
 
+// Typical for a liquid engine: deep throttling makes combustion unstable.
+export const DEFAULT_THROTTLE_LIMITS: IThrottleLimits = { min: 40, max: 100 };
+export const DEFAULT_MAX_PITCH_RATE = 5; // degrees per second
+
 abstract class BaseStageStrategy implements IStageStrategy {
-  abstract getFuelConsumptionRate(): number;
-  abstract getAltitudeIncrement(): number;
-  abstract getSpeedIncrement(): number;
+  abstract getThrust(): number;
+  abstract getSpecificImpulse(): number;
+  abstract getDryMass(): number;
+  abstract getPropellantMass(): number;
+  abstract getDragCoefficient(): number;
+  abstract getReferenceArea(): number;
   abstract getStageName(): string;
   abstract shouldSeparate(fuel: number): boolean;
-}
+  abstract getThrottleLimits(): IThrottleLimits;
+  abstract getMaxPitchRate(): number;
+  abstract getEngineCount(): number;
 
-class Stage1Strategy extends BaseStageStrategy {
   getFuelConsumptionRate(): number {
-    return 1.0; // 1% per second
+    return massFlowRate(this.getThrust(), this.getSpecificImpulse());
   }
 
-  getAltitudeIncrement(): number {
-    return 10; // km per second
+  limitThrottle(throttle: number): number {
+    const { min, max } = this.getThrottleLimits();
+    return Math.min(Math.max(throttle, min), max);
   }
+}
 
-  getSpeedIncrement(): number {
-    return 1000; // km/h per second
+class ConfiguredStageStrategy extends BaseStageStrategy {
+  constructor(private config: IStageConfig) {
+    super();
   }
 
-  getStageName(): string {
-    return '1';
+  getThrust(): number {
+    return this.config.thrust;
   }
 
-  shouldSeparate(fuel: number): boolean {
-    return fuel <= 30;
+  getSpecificImpulse(): number {
+    return this.config.specificImpulse;
   }
-}
 
-class Stage2Strategy extends BaseStageStrategy {
-  getFuelConsumptionRate(): number {
-    return 0.5; // 0.5% per second
+  getDryMass(): number {
+    return this.config.dryMass;
   }
 
-  getAltitudeIncrement(): number {
-    return 15; // km per second
+  getPropellantMass(): number {
+    return this.config.propellantMass;
   }
 
-  getSpeedIncrement(): number {
-    return 800; // km/h per second
+  getDragCoefficient(): number {
+    return this.config.dragCoefficient;
+  }
+
+  getReferenceArea(): number {
+    return this.config.referenceArea;
   }
 
   getStageName(): string {
-    return '2';
+    return this.config.name;
   }
 
   shouldSeparate(fuel: number): boolean {
-    return false; // Stage 2 is final
+    if (!this.config.separation) {
+      return false; // Final stage
+    }
+    return fuel <= this.config.separation.fuelBelow;
+  }
+
+  getThrottleLimits(): IThrottleLimits {
+    return this.config.throttle ?? DEFAULT_THROTTLE_LIMITS;
+  }
+
+  getMaxPitchRate(): number {
+    return this.config.maxPitchRate ?? DEFAULT_MAX_PITCH_RATE;
+  }
+
+  getEngineCount(): number {
+    return this.config.engines ?? 1;
   }
 }
 
 export class StageFactory {
-  static createStage(stageNumber: number): IStageStrategy {
-    switch (stageNumber) {
-      case 1:
-        return new Stage1Strategy();
-      case 2:
-        return new Stage2Strategy();
-      default:
-        throw new SimulatorException(`Unknown stage: ${stageNumber}`);
+  constructor(private config: IRocketConfig) {}
+
+  createStage(stageNumber: number): IStageStrategy {
+    const stageConfig = this.config.stages[stageNumber - 1];
+    if (!stageConfig) {
+      throw new SimulatorException(`Unknown stage: ${stageNumber}`);
     }
+    return new ConfiguredStageStrategy(stageConfig);
   }
-}
\ No newline at end of file
+
+  getStageCount(): number {
+    return this.config.stages.length;
+  }
+}
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import { SimulatorException } from './exceptions';
+import { IRocketObserver } from './rocketSystem';
+import { IRocketState, MissionStatus } from './types';
+
+// ============================================================================
+// TELEMETRY RECORDER (Observer Implementation)
+// ============================================================================
+
+export interface ITelemetrySample {
+  time: number;     // s since launch
+  stage: number;
+  fuel: number;     // %
+  altitude: number; // km
+  downrange: number; // km
+  speed: number;    // km/h
+  status: MissionStatus;
+}
+
+const CSV_COLUMNS: (keyof ITelemetrySample)[] = ['time', 'stage', 'fuel', 'altitude', 'downrange', 'speed', 'status'];
+
+export class TelemetryRecorder implements IRocketObserver {
+  private samples: ITelemetrySample[] = [];
+
+  onStateUpdate(state: IRocketState): void {
+    if (state.stage === 0) {
+      return; // Nothing to plot until the rocket leaves the pad
+    }
+
+    // After a rewind or undo the timeline restarts from an earlier point, so
+    // drop the samples of the future that no longer happened.
+    while (this.samples.length > 0 &&
+           this.samples[this.samples.length - 1].time > state.missionTime) {
+      this.samples.pop();
+    }
+
+    const last = this.samples[this.samples.length - 1];
+    if (last && last.time === state.missionTime && last.status === state.status) {
+      this.samples.pop();
+    }
+
+    this.samples.push({
+      time: state.missionTime,
+      stage: state.stage,
+      fuel: state.fuel,
+      altitude: state.altitude,
+      downrange: state.downrange,
+      speed: state.speed,
+      status: state.status
+    });
+  }
+
+  getSamples(): ITelemetrySample[] {
+    return [...this.samples];
+  }
+
+  // Replaces the recording, e.g. with the one stored in a saved session.
+  restore(samples: ITelemetrySample[]): void {
+    this.samples = samples.map(sample => ({ ...sample }));
+  }
+
+  exportCsv(filePath: string): void {
+    const rows = this.samples.map(sample =>
+      CSV_COLUMNS.map(column => this.formatCsvValue(sample[column])).join(',')
+    );
+    this.writeFile(filePath, [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n');
+  }
+
+  exportJson(filePath: string): void {
+    this.writeFile(filePath, JSON.stringify({ samples: this.samples }, null, 2) + '\n');
+  }
+
+  private formatCsvValue(value: string | number): string {
+    if (typeof value === 'number') {
+      return String(Number(value.toFixed(4)));
+    }
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private writeFile(filePath: string, contents: string): void {
+    try {
+      fs.writeFileSync(filePath, contents, 'utf8');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      throw new SimulatorException(`Cannot write telemetry to ${filePath}: ${reason}`);
+    }
+  }
+}
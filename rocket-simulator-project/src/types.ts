@@ -1,7 +1,39 @@
+export enum LogLevel {
+  DEBUG = 'DEBUG',
+  INFO = 'INFO',
+  WARN = 'WARN',
+  ERROR = 'ERROR'
+}
+
+// Structured context attached to a log entry alongside the message.
+export interface ILogFields {
+  missionTime?: number;
+  stage?: number;
+  command?: string;
+}
+
+export interface ILogEntry {
+  level: LogLevel;
+  timestamp: string; // ISO 8601
+  message: string;
+  fields: ILogFields;
+}
+
+export interface ILogSink {
+  write(entry: ILogEntry): void;
+}
+
 export interface ILogger {
-  info(message: string): void;
-  warn(message: string): void;
-  error(message: string): void;
+  debug(message: string, fields?: ILogFields): void;
+  info(message: string, fields?: ILogFields): void;
+  warn(message: string, fields?: ILogFields): void;
+  error(message: string, fields?: ILogFields): void;
+}
+
+export interface IRandomSource {
+  next(): number; // uniform in [0, 1)
+  getSeed(): number;
+  getState(): number; // position in the sequence, for saving a session
 }
 
 export interface IRocketState {
@@ -10,27 +42,371 @@ export interface IRocketState {
   altitude: number;
   speed: number;
   status: MissionStatus;
+  missionTime: number; // s since launch, negative during the countdown
+  velocity: number;    // m/s, vertical, positive is up
+  abortMode: AbortMode | null;
+  horizontalVelocity: number; // m/s, downrange
+  downrange: number;          // km along the surface from the pad
+  pitch: number;              // degrees from vertical, 90 is horizontal
+  throttle: number;           // % of full thrust
+}
+
+export interface IOrbitalElements {
+  apoapsis: number;  // km above the surface, Infinity when unbound
+  periapsis: number; // km above the surface, negative when it is underground
+  specificEnergy: number; // J/kg, zero or more means escape
+}
+
+// What the vehicle's path does if the engines stop now.
+export enum TrajectoryType {
+  ORBIT = 'Orbit',
+  REENTRY = 'Re-entry',
+  SUBORBITAL = 'Suborbital',
+  ESCAPE = 'Escape'
+}
+
+// Decides where to point the engines; pitch is in degrees from vertical.
+// Strategies that also drive the throttle return it in %, the others leave
+// the throttle where the crew set it.
+export interface IGuidanceStrategy {
+  getPitch(state: IRocketState, thrustAcceleration: number, targetAltitude: number): number;
+  getThrottle?(state: IRocketState): number;
+  getName(): string;
+}
+
+export enum GuidanceMode {
+  GRAVITY_TURN = 'Gravity turn',
+  MANUAL = 'Manual pitch',
+  PROGRAM = 'Program'
+}
+
+// One row of a guidance table; values between rows are interpolated.
+export interface IGuidancePoint {
+  time: number;      // s since launch
+  pitch: number;     // degrees from vertical
+  throttle?: number; // %
+}
+
+export interface IGuidanceProgram {
+  name: string;
+  points: IGuidancePoint[];
+}
+
+// Which guidance is flying, as plain data so it can be saved and undone.
+export type GuidanceSetting =
+  | { mode: GuidanceMode.GRAVITY_TURN }
+  | { mode: GuidanceMode.MANUAL; pitch: number }
+  | { mode: GuidanceMode.PROGRAM; program: IGuidanceProgram };
+
+export interface IRocketSnapshot {
+  state: IRocketState;
+  config: IRocketConfig;
+  checks?: IChecksInProgress | null;
+  position?: number; // journal position when taken; absent for a loaded session
+}
+
+// Everything needed to pick a session up again exactly where it was left.
+export interface ISimulationCheckpoint {
+  state: IRocketState;
+  config: IRocketConfig;
+  timeStep: number;
+  random: { seed: number; state: number; sensorState: number };
+  guidance: GuidanceSetting;
+  flightHistory: IRocketState[]; // the rewind window
+  anomalies: IAnomaly[];
+  checks: IChecksInProgress | null;
+}
+
+// Hooks into advanceTime so queued commands fire between simulation steps.
+export interface IFlightScheduler {
+  // Mission time of the next time-triggered entry after `time`, so that a
+  // step can end exactly on it; null when there is none.
+  getNextTriggerTime(time: number): number | null;
+  onTick(state: IRocketState): void;
+  // The rocket was put back to an earlier state by undo, rewind or load.
+  rewindTo(state: IRocketState): void;
+}
+
+export interface ICommandRecord {
+  description: string;
+  missionTime: number; // s, when the command was issued
+  status: MissionStatus; // at that moment
 }
 
 export interface ICommand {
   execute(): void;
+  undo(): void;
   canExecute(): boolean;
+  canUndo(): boolean;
   getDescription(): string;
 }
 
 export interface IStageStrategy {
-  getFuelConsumptionRate(): number;
-  getAltitudeIncrement(): number;
-  getSpeedIncrement(): number;
+  getThrust(): number;              // N
+  getSpecificImpulse(): number;     // s
+  getDryMass(): number;             // kg
+  getPropellantMass(): number;      // kg
+  getDragCoefficient(): number;
+  getReferenceArea(): number;       // m^2
+  getFuelConsumptionRate(): number; // kg/s at full throttle
   getStageName(): string;
   shouldSeparate(fuel: number): boolean;
+  getThrottleLimits(): IThrottleLimits;
+  limitThrottle(throttle: number): number; // clamps a requested % into the limits
+  getMaxPitchRate(): number;        // degrees per second
+  getEngineCount(): number;
+}
+
+export enum CheckOutcome {
+  PASSED = 'passed',
+  TRANSIENT_FAULT = 'transient fault', // worth retrying
+  HARDWARE_FAULT = 'hardware fault'    // retrying will not help
+}
+
+export interface ISystemCheck {
+  getName(): string;
+  getDuration(): number; // s per attempt
+  run(random: IRandomSource): CheckOutcome;
+}
+
+export interface ICheckAttempt {
+  check: string;
+  attempt: number;
+  outcome: CheckOutcome;
+  endsAt: number;         // s after the checks started
+  retryIn: number | null; // s of backoff before the next attempt, null when none follows
+}
+
+// Every attempt is rolled when the checks start and then played out as
+// simulated time passes. Mission time stands still before the countdown, so
+// the checks keep their own clock.
+export interface IChecksInProgress {
+  attempts: ICheckAttempt[];
+  played: number;  // attempts already over
+  outcome: CheckOutcome;
+  failedCheck: string | null;
+  duration: number; // s until the outcome is known
+  elapsed: number;  // s since the checks started
+}
+
+export interface ISeparationRule {
+  fuelBelow: number; // separate once stage fuel (%) drops to this level
+}
+
+export interface IStageConfig {
+  name: string;
+  thrust: number;          // N
+  specificImpulse: number; // s
+  dryMass: number;         // kg
+  propellantMass: number;  // kg
+  dragCoefficient: number;
+  referenceArea: number;   // m^2
+  separation?: ISeparationRule; // omitted on the final stage
+  throttle?: IThrottleLimits;   // defaults to 40-100 %
+  maxPitchRate?: number;        // degrees per second, defaults to 5
+  engines?: number;             // thrust is shared equally, defaults to 1
+}
+
+export interface IThrottleLimits {
+  min: number; // %
+  max: number; // %
+}
+
+export interface IMissionTargets {
+  orbitAltitude: number;      // km
+  abortOrbitAltitude: number; // km, lower safe orbit used by abort-to-orbit
+}
+
+// Gravity turn: straight up until the start altitude, then pitched over
+// towards horizontal along (progress ^ exponent) until the end altitude.
+// Upper stages steer for the target altitude instead.
+export interface IGuidanceConfig {
+  turnStartAltitude: number; // km
+  turnEndAltitude: number;   // km
+  turnExponent: number;
+}
+
+export interface ICheckConfig {
+  name: string;
+  duration: number;             // s per attempt
+  transientFailureRate: number; // probability per attempt
+  hardwareFailureRate: number;  // probability per attempt
+}
+
+export interface IRetryPolicy {
+  maxAttempts: number;
+  initialBackoff: number;    // s before the first retry
+  backoffMultiplier: number; // applied to the wait after each retry
+}
+
+export interface IPreLaunchConfig {
+  checks: ICheckConfig[];
+  retryPolicy: IRetryPolicy;
+}
+
+export interface ICountdownEvent {
+  name: string;
+  at: number; // s before liftoff
+}
+
+export interface ICountdownConfig {
+  duration: number; // s, the count starts at T-duration
+  events: ICountdownEvent[];
+}
+
+export type SensorField = 'altitude' | 'speed' | 'velocity' | 'horizontalVelocity' | 'downrange' | 'fuel' | 'pitch';
+
+// How one sensor distorts the quantity it measures, in that quantity's units.
+export interface ISensorModel {
+  noise: number;       // standard deviation of Gaussian noise
+  resolution: number;  // readings are rounded to multiples of this, 0 for none
+  dropoutRate: number; // chance that a reading is lost (0-1)
+}
+
+// Sensors left out are perfect.
+export type ISensorConfig = { [field in SensorField]?: ISensorModel };
+
+export interface IRocketConfig {
+  name: string;
+  payloadMass: number; // kg
+  stages: IStageConfig[];
+  mission: IMissionTargets;
+  guidance: IGuidanceConfig;
+  preLaunch: IPreLaunchConfig;
+  countdown: ICountdownConfig;
+  sensors: ISensorConfig;
 }
 
 export enum MissionStatus {
   PRE_LAUNCH = 'Pre-Launch',
   CHECKS_IN_PROGRESS = 'System Checks',
+  HOLD = 'Hold',
+  SCRUBBED = 'Scrubbed',
   READY_TO_LAUNCH = 'Ready for Launch',
+  COUNTDOWN = 'Countdown',
+  COUNTDOWN_HOLD = 'Countdown Hold',
   IN_FLIGHT = 'In Flight',
   ORBIT_ACHIEVED = 'Orbit Achieved',
-  MISSION_FAILED = 'Mission Failed'
-}
\ No newline at end of file
+  MISSION_FAILED = 'Mission Failed',
+  ABORTED = 'Aborted'
+}
+
+// Observers see telemetry by default; recorders and graders ask for truth.
+export enum StateFeed {
+  TELEMETRY = 'telemetry',
+  TRUTH = 'truth'
+}
+
+export enum AbortMode {
+  PAD_ABORT = 'Pad Abort',
+  LAUNCH_ESCAPE = 'Launch Escape',
+  ABORT_TO_ORBIT = 'Abort to Orbit'
+}
+export enum RocketEventType {
+  CHECKS_COMPLETED = 'ChecksCompleted',
+  COUNTDOWN_MILESTONE = 'CountdownMilestone',
+  LAUNCHED = 'Launched',
+  STAGE_SEPARATED = 'StageSeparated',
+  ORBIT_ACHIEVED = 'OrbitAchieved',
+  MISSION_FAILED = 'MissionFailed',
+  ABORTED = 'Aborted',
+  ANOMALY_INJECTED = 'AnomalyInjected',
+  ANOMALY_CLEARED = 'AnomalyCleared'
+}
+
+export enum AnomalyType {
+  ENGINE_OUT = 'engine_out',
+  FUEL_LEAK = 'fuel_leak',
+  SEPARATION_FAILURE = 'separation_failure',
+  GUIDANCE_DRIFT = 'guidance_drift',
+  SENSOR_DROPOUT = 'sensor_dropout'
+}
+
+// Navigation readings, as a sensor dropout freezes them.
+export interface ISensorReadings {
+  altitude: number;
+  speed: number;
+  velocity: number;
+  horizontalVelocity: number;
+  downrange: number;
+}
+
+export interface IAnomaly {
+  type: AnomalyType;
+  stage: number;      // the stage burning when it was injected
+  injectedAt: number; // s, mission time
+  readings: ISensorReadings | null; // last good readings, sensor dropout only
+}
+
+interface IRocketEventBase {
+  missionTime: number;
+}
+
+export interface IChecksCompletedEvent extends IRocketEventBase {
+  type: RocketEventType.CHECKS_COMPLETED;
+  outcome: CheckOutcome;
+  failedCheck: string | null; // the check that stopped the sequence, if any
+  elapsed: number;            // s spent on the checks, including retries
+}
+
+export interface ICountdownMilestoneEvent extends IRocketEventBase {
+  type: RocketEventType.COUNTDOWN_MILESTONE;
+  milestone: ICountdownEvent;
+}
+
+export interface ILaunchedEvent extends IRocketEventBase {
+  type: RocketEventType.LAUNCHED;
+}
+
+export interface IStageSeparatedEvent extends IRocketEventBase {
+  type: RocketEventType.STAGE_SEPARATED;
+  separatedStage: number;
+  separatedFuel: number; // % of propellant left in the stage dropped
+  nextStage: number;
+  altitude: number;
+}
+
+export interface IOrbitAchievedEvent extends IRocketEventBase {
+  type: RocketEventType.ORBIT_ACHIEVED;
+  altitude: number;
+  speed: number;
+  apoapsis: number;
+  periapsis: number;
+  abortToOrbit: boolean;
+}
+
+export interface IMissionFailedEvent extends IRocketEventBase {
+  type: RocketEventType.MISSION_FAILED;
+  reason: string;
+  trajectory: TrajectoryType | null; // null when the failure was not a bad trajectory
+}
+
+export interface IAbortedEvent extends IRocketEventBase {
+  type: RocketEventType.ABORTED;
+  mode: AbortMode;
+}
+
+export interface IAnomalyInjectedEvent extends IRocketEventBase {
+  type: RocketEventType.ANOMALY_INJECTED;
+  anomaly: AnomalyType;
+  stage: number;
+  description: string;
+}
+
+export interface IAnomalyClearedEvent extends IRocketEventBase {
+  type: RocketEventType.ANOMALY_CLEARED;
+  anomaly: AnomalyType;
+  stage: number;
+  reason: string; // e.g. the stage was jettisoned
+}
+
+export type RocketEvent =
+  | IChecksCompletedEvent
+  | ICountdownMilestoneEvent
+  | ILaunchedEvent
+  | IStageSeparatedEvent
+  | IOrbitAchievedEvent
+  | IMissionFailedEvent
+  | IAbortedEvent
+  | IAnomalyInjectedEvent
+  | IAnomalyClearedEvent;